@@ -0,0 +1,138 @@
+/**
+ * Baseline support for adopting ctdsLint on existing libraries.
+ *
+ * A baseline file records the checks that were failing when it was
+ * written. Later runs drop failures that are already in the baseline, so
+ * CI only fails on regressions while the known debt is paid down.
+ *
+ * Entries are keyed by rule ID plus the component/node ID (or the check
+ * label for checks that are not tied to a node), so rewording a
+ * suggestion or reordering the file does not invalidate the baseline.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { AuditCheck } from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BaselineEntry {
+  ruleId: string;
+  /** Component/node ID, or the check label when the check has no node */
+  key: string;
+  /** Human-readable label at the time the baseline was written */
+  check: string;
+}
+
+export interface BaselineFile {
+  version: 1;
+  fileKey: string;
+  timestamp: string;
+  entries: BaselineEntry[];
+}
+
+export interface BaselineResult {
+  /** Checks with known failures removed */
+  checks: AuditCheck[];
+  /** Number of failing checks suppressed by the baseline */
+  suppressed: number;
+}
+
+/** Default file used by --update-baseline when --baseline is not given */
+export const DEFAULT_BASELINE_FILE = '.ctdslint-baseline.json';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function entryKey(ruleId: string, key: string): string {
+  return `${ruleId}::${key}`;
+}
+
+/**
+ * Stable identity of a check across runs: rule ID plus node ID, or the
+ * check label when the check is not tied to a node.
+ */
+export function checkKey(check: AuditCheck): string {
+  return entryKey(check.ruleId, check.nodeId ?? check.check);
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Read a baseline file.
+ *
+ * @throws Error when the file is missing or not a ctdsLint baseline
+ */
+export function readBaseline(filePath: string): BaselineFile {
+  const absPath = resolve(filePath);
+  if (!existsSync(absPath)) {
+    throw new Error(`Baseline file not found: ${absPath} (create it with --update-baseline)`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(absPath, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Could not parse baseline ${absPath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const baseline = raw as Partial<BaselineFile> | null;
+  if (!baseline || baseline.version !== 1 || !Array.isArray(baseline.entries)) {
+    throw new Error(`Invalid baseline file ${absPath}: expected { "version": 1, "entries": [...] }`);
+  }
+  return baseline as BaselineFile;
+}
+
+/**
+ * Write every currently failing check to a baseline file.
+ */
+export function writeBaseline(filePath: string, fileKey: string, checks: AuditCheck[]): BaselineFile {
+  const seen = new Set<string>();
+  const entries: BaselineEntry[] = [];
+
+  for (const check of checks) {
+    if (check.status !== 'fail') continue;
+    const key = checkKey(check);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    entries.push({ ruleId: check.ruleId, key: check.nodeId ?? check.check, check: check.check });
+  }
+
+  entries.sort((a, b) => a.ruleId.localeCompare(b.ruleId) || a.key.localeCompare(b.key));
+
+  const baseline: BaselineFile = {
+    version: 1,
+    fileKey,
+    timestamp: new Date().toISOString(),
+    entries,
+  };
+
+  const absPath = resolve(filePath);
+  writeFileSync(absPath, JSON.stringify(baseline, null, 2) + '\n', 'utf-8');
+  console.log(`Baseline written to: ${absPath} (${entries.length} known failures)`);
+  return baseline;
+}
+
+/**
+ * Remove failing checks that are recorded in the baseline. Passing checks,
+ * warnings and new failures are kept.
+ */
+export function applyBaseline(checks: AuditCheck[], baseline: BaselineFile): BaselineResult {
+  const known = new Set(baseline.entries.map(e => entryKey(e.ruleId, e.key)));
+  let suppressed = 0;
+
+  const filtered = checks.filter(check => {
+    if (check.status === 'fail' && known.has(checkKey(check))) {
+      suppressed++;
+      return false;
+    }
+    return true;
+  });
+
+  return { checks: filtered, suppressed };
+}
@@ -0,0 +1,95 @@
+/**
+ * Locate and load the project config file for the CLI.
+ *
+ * Searches the working directory and its ancestors for the first of
+ * `CONFIG_FILE_NAMES`, parses it as JSON or YAML, and validates it
+ * against the schema in `../core/config`.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import {
+  CtdsLintConfig,
+  DEFAULT_CONFIG,
+  parseConfig,
+  formatConfigErrors,
+} from '../core/config';
+
+/** File names checked in each directory, in priority order. */
+export const CONFIG_FILE_NAMES = [
+  '.ctdslintrc',
+  '.ctdslintrc.json',
+  '.ctdslintrc.yaml',
+  '.ctdslintrc.yml',
+];
+
+export interface LoadedConfig {
+  config: CtdsLintConfig;
+  /** Absolute path of the file the config came from (undefined = defaults) */
+  path?: string;
+}
+
+/**
+ * Walk up from `startDir` and return the first config file found.
+ */
+export function findConfigFile(startDir: string = process.cwd()): string | undefined {
+  let dir = resolve(startDir);
+
+  while (true) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) return candidate;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Read and validate a config file.
+ *
+ * `.json` files are parsed as JSON; everything else is parsed as YAML
+ * (which also accepts JSON, so an extension-less `.ctdslintrc` may use
+ * either syntax).
+ *
+ * @throws Error with every schema problem listed when the file is invalid
+ */
+export function readConfigFile(filePath: string): CtdsLintConfig {
+  const absPath = resolve(filePath);
+  const text = readFileSync(absPath, 'utf-8');
+
+  let raw: unknown;
+  try {
+    raw = absPath.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    throw new Error(`Could not parse ${absPath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const { config, errors } = parseConfig(raw);
+  if (errors.length > 0) {
+    throw new Error(formatConfigErrors(absPath, errors));
+  }
+  return config;
+}
+
+/**
+ * Load the config from an explicit path, or discover one from the
+ * working directory. Falls back to `DEFAULT_CONFIG` when none exists.
+ */
+export function loadConfig(explicitPath?: string): LoadedConfig {
+  if (explicitPath) {
+    const absPath = resolve(explicitPath);
+    if (!existsSync(absPath)) {
+      throw new Error(`Config file not found: ${absPath}`);
+    }
+    return { config: readConfigFile(absPath), path: absPath };
+  }
+
+  const found = findConfigFile();
+  if (!found) {
+    return { config: DEFAULT_CONFIG };
+  }
+  return { config: readConfigFile(found), path: found };
+}
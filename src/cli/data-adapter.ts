@@ -17,6 +17,7 @@ import type {
   LintOtherPaint,
   LintEffect,
   LintRGBA,
+  LintTextSegment,
   LintData,
 } from '../shared/types';
 
@@ -31,6 +32,7 @@ import type {
   FigmaRestVariableValue,
   FigmaRestVariableAlias,
   FigmaRestBoundVariable,
+  FigmaTypeStyle,
 } from './figma-api';
 
 // ============================================================================
@@ -64,7 +66,7 @@ export function adaptVariables(response: FigmaVariablesResponse): {
 } {
   const collections: LintVariableCollection[] = Object.values(
     response.meta.variableCollections
-  ).map(c => ({ id: c.id, name: c.name }));
+  ).map(c => ({ id: c.id, name: c.name, defaultModeId: c.defaultModeId, modes: c.modes }));
 
   const variables: LintVariable[] = Object.values(
     response.meta.variables
@@ -116,10 +118,10 @@ export function adaptTextStyles(
   // If no TEXT styles found, return empty array
   if (textStyleEntries.length === 0) return [];
 
-  // Build a map from style node ID → style name
-  const styleIdToName = new Map<string, string>();
+  // Build a map from style node ID → style metadata
+  const styleMetaById = new Map<string, { name: string; remote?: boolean }>();
   for (const [nodeId, meta] of textStyleEntries) {
-    styleIdToName.set(nodeId, meta.name);
+    styleMetaById.set(nodeId, meta);
   }
 
   // Walk the tree to find text nodes that define styles with boundVariables.
@@ -133,15 +135,15 @@ export function adaptTextStyles(
       // Look through styles map entries to see if this node IS a text style node
       // or if it references a text style. In the REST API, style nodes are
       // embedded in the document tree.
-      const styleName = styleIdToName.get(node.id);
-      if (styleName && !textStyleMap.has(styleName)) {
+      const meta = styleMetaById.get(node.id);
+      if (meta && !textStyleMap.has(meta.name)) {
         const bv: Record<string, LintBoundVariable | undefined> = {};
         for (const [key, binding] of Object.entries(node.boundVariables)) {
           if (binding && !Array.isArray(binding) && binding.id) {
             bv[key] = { id: binding.id };
           }
         }
-        textStyleMap.set(styleName, { name: styleName, boundVariables: bv });
+        textStyleMap.set(meta.name, { id: node.id, name: meta.name, remote: meta.remote, boundVariables: bv });
       }
     }
 
@@ -161,9 +163,9 @@ export function adaptTextStyles(
 
   // For any TEXT style that we didn't find via the tree walk, add it with
   // empty boundVariables (they have hard-coded values).
-  for (const [_, name] of styleIdToName) {
-    if (!textStyleMap.has(name)) {
-      textStyleMap.set(name, { name, boundVariables: {} });
+  for (const [id, meta] of styleMetaById) {
+    if (!textStyleMap.has(meta.name)) {
+      textStyleMap.set(meta.name, { id, name: meta.name, remote: meta.remote, boundVariables: {} });
     }
   }
 
@@ -186,10 +188,18 @@ function adaptPaint(paint: FigmaRestPaint): LintPaint {
       visible: paint.visible !== false,
     } satisfies LintSolidPaint;
   }
-  return {
+  const result: LintOtherPaint = {
     type: paint.type,
     visible: paint.visible !== false,
-  } satisfies LintOtherPaint;
+  };
+  if (paint.gradientStops) {
+    result.gradientStops = paint.gradientStops.map(stop => ({
+      position: stop.position,
+      color: adaptColor(stop.color),
+      boundVariables: stop.boundVariables?.color ? { color: { id: stop.boundVariables.color.id } } : undefined,
+    }));
+  }
+  return result;
 }
 
 function adaptEffect(effect: FigmaRestEffect): LintEffect {
@@ -222,6 +232,83 @@ function adaptBoundVariables(
   return result;
 }
 
+/** Type style fields that change typography (as opposed to fills or links) */
+const TYPOGRAPHY_STYLE_FIELDS: Array<keyof FigmaTypeStyle> = [
+  'fontFamily', 'fontWeight', 'fontSize', 'lineHeightPx', 'lineHeightPercent',
+  'lineHeightPercentFontSize', 'lineHeightUnit', 'letterSpacing', 'letterSpacingUnit', 'boundVariables',
+];
+
+function adaptTypeStyle(ts: FigmaTypeStyle): Pick<LintTextSegment, 'fontFamily' | 'fontWeight' | 'fontSize' | 'lineHeight' | 'letterSpacing'> {
+  const result: ReturnType<typeof adaptTypeStyle> = {};
+  if (ts.fontFamily !== undefined) result.fontFamily = ts.fontFamily;
+  if (ts.fontWeight !== undefined) result.fontWeight = ts.fontWeight;
+  if (ts.fontSize !== undefined) result.fontSize = ts.fontSize;
+  if (ts.lineHeightPx !== undefined) {
+    const unit = ts.lineHeightUnit === 'FONT_SIZE_%' ? 'PERCENT' : 'PIXELS';
+    const value = unit === 'PERCENT' ? (ts.lineHeightPercentFontSize ?? ts.lineHeightPercent ?? ts.lineHeightPx) : ts.lineHeightPx;
+    result.lineHeight = { value, unit };
+  }
+  if (ts.letterSpacing !== undefined) {
+    const unit = ts.letterSpacingUnit === 'PERCENT' ? 'PERCENT' : 'PIXELS';
+    result.letterSpacing = { value: ts.letterSpacing, unit };
+  }
+  return result;
+}
+
+/**
+ * Split a text node into runs of uniform typography using its character
+ * style overrides. Overrides that only change fills or links don't start
+ * a new run. The REST API doesn't report text styles per character, so a
+ * run whose typography is overridden is treated as having no text style.
+ * Returns undefined when the whole text is formatted the same.
+ */
+function adaptTextSegments(node: FigmaNode, base: LintNode): LintTextSegment[] | undefined {
+  const characters = node.characters ?? '';
+  const overrides = node.characterStyleOverrides ?? [];
+  const table = node.styleOverrideTable ?? {};
+  const runOf = (index: number): number => {
+    const id = overrides[index] ?? 0;
+    const override = table[String(id)];
+    return override && TYPOGRAPHY_STYLE_FIELDS.some(field => override[field] !== undefined) ? id : 0;
+  };
+
+  const runs: Array<{ start: number; end: number; id: number }> = [];
+  for (let i = 0; i < characters.length; i++) {
+    const id = runOf(i);
+    const last = runs[runs.length - 1];
+    if (last && last.id === id) {
+      last.end = i + 1;
+    } else {
+      runs.push({ start: i, end: i + 1, id });
+    }
+  }
+  if (runs.length < 2) return undefined;
+
+  // Node bindings apply to every run unless overridden
+  const baseBindings: LintTextSegment['boundVariables'] = {};
+  for (const [key, binding] of Object.entries(base.boundVariables)) {
+    const first = Array.isArray(binding) ? binding[0] : binding;
+    if (first) baseBindings[key] = first;
+  }
+
+  return runs.map(run => {
+    const override = run.id ? table[String(run.id)] : undefined;
+    const boundVariables = { ...baseBindings };
+    for (const [key, binding] of Object.entries(adaptBoundVariables(override?.boundVariables))) {
+      const first = Array.isArray(binding) ? binding[0] : binding;
+      if (first) boundVariables[key] = first;
+    }
+    return {
+      start: run.start,
+      end: run.end,
+      characters: characters.slice(run.start, run.end),
+      ...adaptTypeStyle({ ...node.style, ...override }),
+      textStyleId: override ? undefined : node.styles?.text,
+      boundVariables,
+    };
+  });
+}
+
 function adaptNode(node: FigmaNode): LintNode {
   const result: LintNode = {
     id: node.id,
@@ -243,10 +330,24 @@ function adaptNode(node: FigmaNode): LintNode {
     result.effects = node.effects.map(adaptEffect);
   }
 
+  // Paint and effect styles
+  if (node.styles?.fill) result.fillStyleId = node.styles.fill;
+  if (node.styles?.stroke) result.strokeStyleId = node.styles.stroke;
+  if (node.styles?.effect) result.effectStyleId = node.styles.effect;
+
   // Corner radius
   if (node.cornerRadius !== undefined) {
     result.cornerRadius = node.cornerRadius;
   }
+  if (node.rectangleCornerRadii && node.rectangleCornerRadii.length === 4) {
+    const [topLeft, topRight, bottomRight, bottomLeft] = node.rectangleCornerRadii;
+    result.topLeftRadius = topLeft;
+    result.topRightRadius = topRight;
+    result.bottomRightRadius = bottomRight;
+    result.bottomLeftRadius = bottomLeft;
+    // The API omits cornerRadius when the corners differ
+    if (new Set(node.rectangleCornerRadii).size > 1) result.cornerRadius = 'MIXED';
+  }
 
   // Auto-layout
   if (node.layoutMode) {
@@ -259,6 +360,10 @@ function adaptNode(node: FigmaNode): LintNode {
   if (node.itemSpacing !== undefined) result.itemSpacing = node.itemSpacing;
   if (node.layoutSizingHorizontal) result.layoutSizingHorizontal = node.layoutSizingHorizontal;
   if (node.layoutSizingVertical) result.layoutSizingVertical = node.layoutSizingVertical;
+  for (const field of ['minWidth', 'maxWidth', 'minHeight', 'maxHeight'] as const) {
+    const value = node[field];
+    if (typeof value === 'number') result[field] = value;
+  }
 
   // Component properties
   if (node.componentPropertyDefinitions) {
@@ -270,20 +375,20 @@ function adaptNode(node: FigmaNode): LintNode {
   if (node.blendMode) result.blendMode = node.blendMode;
   if (node.constraints) result.constraints = node.constraints;
   if (node.strokeWeight !== undefined) result.strokeWeight = node.strokeWeight;
+  if (node.individualStrokeWeights) {
+    const { top, right, bottom, left } = node.individualStrokeWeights;
+    result.strokeTopWeight = top;
+    result.strokeRightWeight = right;
+    result.strokeBottomWeight = bottom;
+    result.strokeLeftWeight = left;
+  }
 
   // Typography (TEXT nodes)
   if (node.type === 'TEXT' && node.style) {
-    const ts = node.style;
-    if (ts.fontSize !== undefined) result.fontSize = ts.fontSize;
-    if (ts.lineHeightPx !== undefined) {
-      const unit = ts.lineHeightUnit === 'FONT_SIZE_%' ? 'PERCENT' : 'PIXELS';
-      const value = unit === 'PERCENT' ? (ts.lineHeightPercentFontSize ?? ts.lineHeightPercent ?? ts.lineHeightPx) : ts.lineHeightPx;
-      result.lineHeight = { value, unit };
-    }
-    if (ts.letterSpacing !== undefined) {
-      const unit = ts.letterSpacingUnit === 'PERCENT' ? 'PERCENT' : 'PIXELS';
-      result.letterSpacing = { value: ts.letterSpacing, unit };
-    }
+    Object.assign(result, adaptTypeStyle(node.style));
+    if (node.styles?.text) result.textStyleId = node.styles.text;
+    const segments = adaptTextSegments(node, result);
+    if (segments) result.textSegments = segments;
   }
 
   // Children
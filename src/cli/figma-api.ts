@@ -40,7 +40,9 @@ export interface FigmaNode {
   strokes?: FigmaRestPaint[];
   effects?: FigmaRestEffect[];
   cornerRadius?: number;
+  /** Top-left, top-right, bottom-right, bottom-left */
   rectangleCornerRadii?: number[];
+  individualStrokeWeights?: { top: number; right: number; bottom: number; left: number };
 
   // Auto-layout
   layoutMode?: string;
@@ -51,9 +53,21 @@ export interface FigmaNode {
   itemSpacing?: number;
   layoutSizingHorizontal?: string;
   layoutSizingVertical?: string;
+  minWidth?: number | null;
+  maxWidth?: number | null;
+  minHeight?: number | null;
+  maxHeight?: number | null;
 
   // Typography (TEXT nodes)
   style?: FigmaTypeStyle;
+  characters?: string;
+  /** Style override ID per character; 0 (or a missing entry) means the base `style` */
+  characterStyleOverrides?: number[];
+  /** Overridden properties keyed by override ID */
+  styleOverrideTable?: Record<string, FigmaTypeStyle>;
+
+  /** Applied style IDs keyed by style type (`text`, `fill`, …), as in the file's `styles` map */
+  styles?: Record<string, string>;
 
   // Variable bindings
   boundVariables?: Record<string, FigmaRestBoundVariable | FigmaRestBoundVariable[]>;
@@ -81,6 +95,11 @@ export interface FigmaRestPaint {
   visible?: boolean;
   color?: FigmaRestColor;
   opacity?: number;
+  gradientStops?: Array<{
+    position: number;
+    color: FigmaRestColor;
+    boundVariables?: { color?: FigmaRestBoundVariable };
+  }>;
 }
 
 export interface FigmaRestColor {
@@ -114,6 +133,7 @@ export interface FigmaTypeStyle {
   lineHeightPercentFontSize?: number;
   lineHeightUnit?: string;
   letterSpacingUnit?: string;
+  boundVariables?: Record<string, FigmaRestBoundVariable | FigmaRestBoundVariable[]>;
 }
 
 export interface FigmaComponentMeta {
@@ -127,6 +147,8 @@ export interface FigmaStyleMeta {
   name: string;
   styleType: string;
   description: string;
+  /** Style is published from another library */
+  remote?: boolean;
 }
 
 // ---- Variables API ----
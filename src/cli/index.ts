@@ -4,11 +4,13 @@
  * ctdsLint CLI
  *
  * Runs the CT/DS design system audit against a Figma file via the REST API
- * and writes results to the console, a JSON file, or an HTML report.
+ * and writes results to the console, a JSON file, an HTML or Markdown
+ * report, a SARIF log, or JUnit XML.
  *
  * Usage:
  *   node dist-cli/cli/index.js --file-key <key> [options]
  *   node dist-cli/cli/index.js --url <figma-url> --audit-type complexity
+ *   node dist-cli/cli/index.js diff <old.json> <new.json> [--format console|markdown|html] [-o file]
  *
  * Options:
  *   --file-key, -f    Figma file key (required unless --url is used)
@@ -16,11 +18,16 @@
  *   --node-id, -n     Target node ID (when using --file-key for complexity)
  *   --token, -t       Figma Personal Access Token (or set FIGMA_PERSONAL_ACCESS_TOKEN env var)
  *   --output, -o      Output file path (e.g. report.json or report.html)
- *   --format          Output format: json | html | console (default: console)
+ *   --format          Output format: json | html | markdown | sarif | junit | console (default: console)
  *   --audit-type      Audit scope: system | variables-styles | components | complexity
+ *   --config, -c      Path to a project config file (default: nearest .ctdslintrc)
+ *   --complexity-threshold  Composite score above which complexity JUnit cases fail
+ *   --baseline        Baseline file of known failures to ignore
+ *   --update-baseline Record the current failures in the baseline file
  *   --help, -h        Show this help text
  */
 
+import type { AuditCheck } from '../types';
 import { FigmaApiClient } from './figma-api';
 import { buildLintData, findComponents, adaptNodeStandalone } from './data-adapter';
 import {
@@ -29,8 +36,27 @@ import {
   validateTextStyleBindings,
   validateAllComponentBindings,
 } from '../core/collection-validator';
+import { applyRuleSeverities } from '../core/rules';
+import { resolveDefaultModeValues } from '../core/token-resolver';
+import { validateComponentContrast, validateModeContrast } from '../core/contrast-validator';
+import { validateAliasGraph } from '../core/alias-validator';
+import { validateComponentTiers, validateVariableTiers } from '../core/tier-validator';
+import { validateUnusedVariables, countNodeBindings } from '../core/variable-usage';
+import { validateModeCompleteness } from '../core/mode-validator';
+import { validateVariableNaming } from '../core/naming-validator';
+import { validateDuplicateValues } from '../core/duplicate-validator';
+import { validateScales } from '../core/scale-validator';
+import { validateMirrorValues } from '../core/mirror-validator';
 import { analyzeAllComponents, analyzeComponentComplexity } from '../core/complexity-analyzer';
-import { parseFigmaUrl } from './url-parser';
+import { parseFigmaUrl, buildFigmaUrl } from './url-parser';
+import { loadConfig, LoadedConfig } from './config-loader';
+import {
+  BaselineFile,
+  DEFAULT_BASELINE_FILE,
+  readBaseline,
+  writeBaseline,
+  applyBaseline,
+} from './baseline';
 import {
   AuditResults,
   calculateAuditStats,
@@ -38,10 +64,24 @@ import {
   reportToConsole,
   reportToJsonFile,
   reportToHtmlFile,
+  reportToMarkdownFile,
+  buildMarkdownReport,
+  reportToSarifFile,
+  buildSarifLog,
+  reportToJUnitFile,
+  buildJUnitXml,
   reportComplexityToConsole,
   reportComplexityToJsonFile,
   reportComplexityToHtmlFile,
+  reportComplexityToJUnitFile,
+  buildComplexityJUnitXml,
+  DEFAULT_COMPLEXITY_THRESHOLD,
+  reportDiffToConsole,
+  reportDiffToMarkdownFile,
+  reportDiffToHtmlFile,
+  buildDiffMarkdown,
 } from './reporters';
+import { readAuditResults, diffAuditResults, AuditDiff } from './report-diff';
 
 // ============================================================================
 // Argument parsing (zero dependencies)
@@ -53,8 +93,12 @@ interface CliArgs {
   nodeId: string;
   token: string;
   output?: string;
-  format: 'json' | 'html' | 'console';
+  format: 'json' | 'html' | 'markdown' | 'sarif' | 'junit' | 'console';
   auditType: 'system' | 'variables-styles' | 'components' | 'complexity';
+  config?: string;
+  complexityThreshold?: number;
+  baseline?: string;
+  updateBaseline: boolean;
   help: boolean;
 }
 
@@ -64,6 +108,7 @@ ctdsLint CLI — CT/DS Design System Auditor
 
 Usage:
   node dist-cli/cli/index.js [options]
+  node dist-cli/cli/index.js diff <old.json> <new.json> [--format console|markdown|html] [-o file]
 
 Options:
   --file-key, -f    Figma file key (or set FIGMA_FILE_KEY env var)
@@ -71,9 +116,17 @@ Options:
   --node-id, -n     Target node ID for complexity analysis
   --token, -t       Figma Personal Access Token (or set FIGMA_PERSONAL_ACCESS_TOKEN env var)
   --output, -o      Output file path (e.g. report.json or report.html)
-  --format          Output format: json | html | console (default: console)
+  --format          Output format: json | html | markdown | sarif | junit | console (default: console)
   --audit-type      Audit scope: system | variables-styles | components | complexity
                     (default: system)
+  --config, -c      Path to a project config file
+                    (default: nearest .ctdslintrc[.json|.yaml|.yml] from the working directory)
+  --complexity-threshold <n>
+                    Composite score above which a component fails the complexity
+                    JUnit report (default: ${DEFAULT_COMPLEXITY_THRESHOLD})
+  --baseline        Baseline file of known failures; only new failures are reported
+  --update-baseline Write the current failures to the baseline file
+                    (default file: ${DEFAULT_BASELINE_FILE}; system audit only)
   --help, -h        Show this help text
 
 Environment Variables:
@@ -92,6 +145,15 @@ Examples:
   # Output to file
   node dist-cli/cli/index.js --format json -o report.json
   node dist-cli/cli/index.js --format html -o report.html --audit-type components
+  node dist-cli/cli/index.js --format markdown -o report.md
+  node dist-cli/cli/index.js --format sarif -o ctdslint.sarif
+
+  # Adopt on an existing library: record today's failures, then gate CI on regressions
+  node dist-cli/cli/index.js --baseline .ctdslint-baseline.json --update-baseline
+  node dist-cli/cli/index.js --baseline .ctdslint-baseline.json
+
+  # Compare two JSON reports (e.g. before and after a library release)
+  node dist-cli/cli/index.js diff v1.json v2.json --format markdown -o changes.md
 
   # Component complexity analysis from a Figma URL
   node dist-cli/cli/index.js --url "https://www.figma.com/design/abc123/MyLib?node-id=42-100" --audit-type complexity
@@ -99,6 +161,9 @@ Examples:
   # Complexity analysis for all components in a file
   node dist-cli/cli/index.js -f abc123DEF --audit-type complexity
 
+  # Complexity as JUnit XML, failing components scoring above 50
+  node dist-cli/cli/index.js -f abc123DEF --audit-type complexity --format junit -o complexity.xml --complexity-threshold 50
+
   # Complexity output as JSON
   node dist-cli/cli/index.js --url "https://..." --audit-type complexity --format json -o complexity.json
 `);
@@ -113,6 +178,10 @@ function parseArgs(argv: string[]): CliArgs {
     output: undefined,
     format: 'console',
     auditType: 'system',
+    config: undefined,
+    complexityThreshold: undefined,
+    baseline: undefined,
+    updateBaseline: false,
     help: false,
   };
 
@@ -155,6 +224,27 @@ function parseArgs(argv: string[]): CliArgs {
         args.auditType = (next ?? 'system') as CliArgs['auditType'];
         i++;
         break;
+      case '--config':
+      case '-c':
+        // An empty path is reported in main() rather than falling back to discovery
+        if (next === undefined || next.startsWith('-')) {
+          args.config = '';
+        } else {
+          args.config = next;
+          i++;
+        }
+        break;
+      case '--complexity-threshold':
+        args.complexityThreshold = Number(next);
+        i++;
+        break;
+      case '--baseline':
+        args.baseline = next ?? '';
+        i++;
+        break;
+      case '--update-baseline':
+        args.updateBaseline = true;
+        break;
       case '--help':
       case '-h':
         args.help = true;
@@ -186,6 +276,9 @@ function parseArgs(argv: string[]): CliArgs {
   if (args.output && args.format === 'console') {
     if (args.output.endsWith('.json')) args.format = 'json';
     else if (args.output.endsWith('.html') || args.output.endsWith('.htm')) args.format = 'html';
+    else if (args.output.endsWith('.md')) args.format = 'markdown';
+    else if (args.output.endsWith('.sarif')) args.format = 'sarif';
+    else if (args.output.endsWith('.xml')) args.format = 'junit';
   }
 
   return args;
@@ -196,6 +289,11 @@ function parseArgs(argv: string[]): CliArgs {
 // ============================================================================
 
 async function main(): Promise<void> {
+  if (process.argv[2] === 'diff') {
+    runDiff(process.argv.slice(3));
+    return;
+  }
+
   const args = parseArgs(process.argv);
 
   if (args.help) {
@@ -213,6 +311,48 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  if (args.complexityThreshold !== undefined &&
+      (!Number.isFinite(args.complexityThreshold) || args.complexityThreshold < 0 || args.complexityThreshold > 100)) {
+    console.error('Error: --complexity-threshold must be a number between 0 and 100.');
+    process.exit(1);
+  }
+
+  if (args.config === '') {
+    console.error('Error: --config requires a path. Example: --config .ctdslintrc.yml');
+    process.exit(1);
+  }
+
+  // A partial audit would drop the accepted failures of every section it skipped
+  if (args.updateBaseline && args.auditType !== 'system') {
+    console.error('Error: --update-baseline requires the full audit (--audit-type system) so the baseline covers every section.');
+    process.exit(1);
+  }
+
+  // ---- Load project config (.ctdslintrc) ----
+  let loaded: LoadedConfig;
+  try {
+    loaded = loadConfig(args.config);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+  const { config } = loaded;
+  if (loaded.path) {
+    console.log(`Using config: ${loaded.path}`);
+  }
+
+  // ---- Load baseline of known failures ----
+  const baselinePath = args.baseline || (args.updateBaseline ? DEFAULT_BASELINE_FILE : undefined);
+  let baseline: BaselineFile | undefined;
+  if (baselinePath && !args.updateBaseline) {
+    try {
+      baseline = readBaseline(baselinePath);
+    } catch (err) {
+      console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+  }
+
   const client = new FigmaApiClient({ token: args.token });
 
   // ==================================================================
@@ -257,29 +397,87 @@ async function main(): Promise<void> {
   // ---- Run validators ----
   console.log(`Running ${args.auditType} audit...\n`);
 
-  let collectionChecks: any[] = [];
-  let textStyleChecks: any[] = [];
-  let componentChecks: any[] = [];
+  let collectionChecks: AuditCheck[] = [];
+  let textStyleChecks: AuditCheck[] = [];
+  let componentChecks: AuditCheck[] = [];
 
   if (args.auditType === 'system' || args.auditType === 'variables-styles') {
-    const collectionValidation = validateCollectionStructure(data.collections, data.variables);
-    collectionChecks = collectionValidation.auditChecks;
+    const collectionValidation = validateCollectionStructure(
+      data.collections, data.variables, config.collections
+    );
+    const aliasGraph = validateAliasGraph(data.collections, data.variables, config.aliases, config.rules);
+    const tierChecks = validateVariableTiers(data.collections, data.variables, config.tiers, config.rules);
+    const modeChecks = validateModeCompleteness(data.collections, data.variables, config.rules);
+    const namingChecks = validateVariableNaming(data.collections, data.variables, config.naming, config.rules);
+    const duplicates = validateDuplicateValues(data.collections, data.variables, config.rules);
+    const scaleChecks = validateScales(data.collections, data.variables, config.scales, config.rules);
+    const mirrorChecks = validateMirrorValues(data.collections, data.variables, config.mirrors, config.rules);
+    const modeContrast = validateModeContrast(
+      config.contrast.pairs, data.collections, data.variables, config.rules
+    );
+    // Only the full audit reports unused variables, matching the plugin
+    const unusedVariables = args.auditType === 'system'
+      ? validateUnusedVariables(
+        data.collections, data.variables, data.textStyles,
+        countNodeBindings(data.pages.flatMap(page => page.children)),
+        config.unused, config.rules
+      ).auditChecks
+      : [];
+    collectionChecks = applyRuleSeverities([
+      ...collectionValidation.auditChecks,
+      ...aliasGraph.auditChecks,
+      ...namingChecks,
+      ...tierChecks,
+      ...modeChecks,
+      ...duplicates.auditChecks,
+      ...scaleChecks,
+      ...mirrorChecks,
+      ...modeContrast.auditChecks,
+      ...unusedVariables,
+    ], config.rules);
 
     const textStyleSync = validateTextStylesAgainstVariables(
       data.collections, data.variables, data.textStyles
     );
     const textStyleBindings = validateTextStyleBindings(data.textStyles, data.variables);
-    textStyleChecks = [...textStyleSync.auditChecks, ...textStyleBindings.auditChecks];
+    textStyleChecks = applyRuleSeverities(
+      [...textStyleSync.auditChecks, ...textStyleBindings.auditChecks], config.rules
+    );
   }
 
   if (args.auditType === 'system' || args.auditType === 'components') {
+    // Resolved variable values let each raw value suggest its closest token
+    const tokens = resolveDefaultModeValues(data.collections, data.variables);
     const componentBindings = validateAllComponentBindings(components, (msg) => {
       process.stdout.write(`\r  ${msg}`);
-    });
-    componentChecks = componentBindings.auditChecks;
+    }, config.rules, tokens, config.roles, data.textStyles);
+    const tierChecks = validateComponentTiers(components, data.collections, data.variables, config.tiers, config.rules);
+    const contrast = validateComponentContrast(components, data.collections, data.variables, config.rules);
+    componentChecks = applyRuleSeverities(
+      [...componentBindings.auditChecks, ...tierChecks, ...contrast.auditChecks], config.rules
+    );
     process.stdout.write('\r' + ' '.repeat(80) + '\r'); // clear progress line
   }
 
+  // ---- Apply baseline ----
+  if (args.updateBaseline && baselinePath) {
+    baseline = writeBaseline(
+      baselinePath, args.fileKey, [...collectionChecks, ...textStyleChecks, ...componentChecks]
+    );
+  }
+  let suppressed = 0;
+  if (baseline) {
+    const known = baseline;
+    const filterSection = (checks: AuditCheck[]): AuditCheck[] => {
+      const result = applyBaseline(checks, known);
+      suppressed += result.suppressed;
+      return result.checks;
+    };
+    collectionChecks = filterSection(collectionChecks);
+    textStyleChecks = filterSection(textStyleChecks);
+    componentChecks = filterSection(componentChecks);
+  }
+
   // ---- Build results ----
   const allChecks = [...collectionChecks, ...textStyleChecks, ...componentChecks];
   const results: AuditResults = {
@@ -295,6 +493,7 @@ async function main(): Promise<void> {
     collectionStructure: collectionChecks,
     textStyleSync: textStyleChecks,
     componentBindings: componentChecks,
+    baseline: baseline && baselinePath ? { path: baselinePath, suppressed } : undefined,
   };
 
   // ---- Output ----
@@ -314,6 +513,27 @@ async function main(): Promise<void> {
         process.exit(1);
       }
       break;
+    case 'markdown':
+      if (args.output) {
+        reportToMarkdownFile(results, args.output);
+      } else {
+        process.stdout.write(buildMarkdownReport(results));
+      }
+      break;
+    case 'sarif':
+      if (args.output) {
+        reportToSarifFile(results, args.output);
+      } else {
+        console.log(JSON.stringify(buildSarifLog(results), null, 2));
+      }
+      break;
+    case 'junit':
+      if (args.output) {
+        reportToJUnitFile(results, args.output);
+      } else {
+        process.stdout.write(buildJUnitXml(results));
+      }
+      break;
     case 'console':
     default:
       reportToConsole(results);
@@ -324,22 +544,108 @@ async function main(): Promise<void> {
       break;
   }
 
-  // Exit with non-zero if any checks failed
+  // Exit with non-zero if any checks failed (rules configured as
+  // `warning` or `off` never reach this count, and failures already
+  // recorded in the baseline were removed above, so only regressions do)
   if (results.scores.overall.failed > 0) {
     process.exit(2);
   }
 }
 
 // ============================================================================
-// Complexity Audit
+// Report Diff
 // ============================================================================
 
-/** Build a Figma deep-link URL from a file key and node ID. */
-function buildFigmaUrl(fileKey: string, nodeId: string): string {
-  const hyphenated = nodeId.replace(/:/g, '-');
-  return `https://www.figma.com/design/${fileKey}?node-id=${hyphenated}`;
+interface DiffArgs {
+  files: string[];
+  output?: string;
+  format: 'console' | 'markdown' | 'html';
 }
 
+function parseDiffArgs(argv: string[]): DiffArgs {
+  const args: DiffArgs = { files: [], output: undefined, format: 'console' };
+  let formatSet = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = argv[i + 1];
+
+    switch (arg) {
+      case '--output':
+      case '-o':
+        args.output = next ?? '';
+        i++;
+        break;
+      case '--format':
+        args.format = (next ?? 'console') as DiffArgs['format'];
+        formatSet = true;
+        i++;
+        break;
+      default:
+        if (!arg.startsWith('-')) args.files.push(arg);
+        break;
+    }
+  }
+
+  // Infer format from output extension if not explicitly set
+  if (args.output && !formatSet) {
+    if (args.output.endsWith('.md')) args.format = 'markdown';
+    else if (args.output.endsWith('.html') || args.output.endsWith('.htm')) args.format = 'html';
+  }
+
+  return args;
+}
+
+/**
+ * `ctdslint diff old.json new.json` — compare two JSON audit reports.
+ * Exits with 2 when the newer report has newly failing checks.
+ */
+function runDiff(argv: string[]): void {
+  const args = parseDiffArgs(argv);
+  if (args.files.length !== 2) {
+    console.error('Error: diff expects two JSON reports. Example: diff old.json new.json');
+    process.exit(1);
+  }
+
+  let diff: AuditDiff;
+  try {
+    diff = diffAuditResults(readAuditResults(args.files[0]), readAuditResults(args.files[1]));
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+
+  switch (args.format) {
+    case 'markdown':
+      if (args.output) {
+        reportDiffToMarkdownFile(diff, args.output);
+      } else {
+        process.stdout.write(buildDiffMarkdown(diff));
+      }
+      break;
+    case 'html':
+      if (args.output) {
+        reportDiffToHtmlFile(diff, args.output);
+      } else {
+        console.error('HTML format requires --output path. Example: --output diff.html');
+        process.exit(1);
+      }
+      break;
+    case 'console':
+    default:
+      reportDiffToConsole(diff);
+      break;
+  }
+
+  if (diff.newlyFailing.length > 0) {
+    process.exit(2);
+  }
+}
+
+// ============================================================================
+// Complexity Audit
+// ============================================================================
+
 async function runComplexityAudit(
   client: FigmaApiClient,
   args: CliArgs,
@@ -410,6 +716,13 @@ function outputComplexity(
         process.exit(1);
       }
       break;
+    case 'junit':
+      if (args.output) {
+        reportComplexityToJUnitFile(results, args.output, args.complexityThreshold);
+      } else {
+        process.stdout.write(buildComplexityJUnitXml(results, args.complexityThreshold));
+      }
+      break;
     case 'console':
     default:
       reportComplexityToConsole(results);
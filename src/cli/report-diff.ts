@@ -0,0 +1,214 @@
+/**
+ * Compare two `AuditResults` snapshots written by `reportToJsonFile`.
+ *
+ * Checks are matched across reports by the same key baselines use (rule
+ * ID plus node ID, or the check label), so a component that moves between
+ * pages or has its suggestion reworded is still recognised.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { AuditCheck } from '../types';
+import type { AuditResults } from './reporters';
+import { checkKey } from './baseline';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DiffSection = 'collectionStructure' | 'textStyleSync' | 'componentBindings';
+
+export interface DiffEntry {
+  section: DiffSection;
+  /** Check as it appears in the newer report (older report when it no longer exists) */
+  check: AuditCheck;
+  /** Status in the older report (undefined when the check is new) */
+  previousStatus?: AuditCheck['status'];
+  /** Status in the newer report (undefined when the check was removed) */
+  currentStatus?: AuditCheck['status'];
+}
+
+export interface ScoreDelta {
+  previous: number;
+  current: number;
+  delta: number;
+}
+
+export interface AuditDiff {
+  previous: { fileName: string; timestamp: string };
+  current: { fileName: string; timestamp: string };
+  scores: {
+    overall: ScoreDelta;
+    collection: ScoreDelta;
+    textStyle: ScoreDelta;
+    component: ScoreDelta;
+  };
+  /** Checks failing now that were passing, warning or absent before */
+  newlyFailing: DiffEntry[];
+  /** Checks that failed or warned before and pass (or are resolved) now */
+  newlyPassing: DiffEntry[];
+  /** Checks that moved to or from a warning without newly failing or passing */
+  statusChanged: DiffEntry[];
+  /** Checks whose component/node is no longer in the report */
+  removed: DiffEntry[];
+}
+
+export const DIFF_SECTIONS: { key: DiffSection; label: string }[] = [
+  { key: 'collectionStructure', label: 'Collection Structure' },
+  { key: 'textStyleSync', label: 'Text Styles' },
+  { key: 'componentBindings', label: 'Components' },
+];
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Read an `AuditResults` JSON report.
+ *
+ * @throws Error when the file is missing or not a ctdsLint audit report
+ */
+export function readAuditResults(filePath: string): AuditResults {
+  const absPath = resolve(filePath);
+  if (!existsSync(absPath)) {
+    throw new Error(`Report not found: ${absPath}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(absPath, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Could not parse ${absPath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const results = raw as Partial<AuditResults> | null;
+  const isReport = !!results && !!results.scores &&
+    DIFF_SECTIONS.every(({ key }) => Array.isArray(results[key]));
+  if (!isReport) {
+    throw new Error(`${absPath} is not a ctdsLint audit report (write one with --format json)`);
+  }
+  return results as AuditResults;
+}
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+function scoreDelta(previous: number, current: number): ScoreDelta {
+  return { previous, current, delta: current - previous };
+}
+
+/**
+ * Key a check, tolerating reports written before checks carried rule IDs.
+ */
+function diffKey(check: AuditCheck): string {
+  return checkKey({ ...check, ruleId: check.ruleId ?? '' });
+}
+
+/**
+ * Group checks by key. Several checks can share a key (e.g. one rule
+ * reported per mode on the same label), so each key holds a list.
+ */
+function groupByKey(checks: AuditCheck[]): Map<string, AuditCheck[]> {
+  const groups = new Map<string, AuditCheck[]>();
+  for (const check of checks) {
+    const key = diffKey(check);
+    groups.set(key, [...(groups.get(key) ?? []), check]);
+  }
+  return groups;
+}
+
+/**
+ * Pair the checks sharing a key across two reports. Checks whose status is
+ * unchanged are matched first, so only real transitions remain; the rest
+ * are paired in report order.
+ */
+function pairChecks(
+  before: AuditCheck[],
+  after: AuditCheck[]
+): { pairs: Array<[AuditCheck | undefined, AuditCheck]>; unmatched: AuditCheck[] } {
+  const remaining = [...before];
+  const changed: AuditCheck[] = [];
+  for (const check of after) {
+    const index = remaining.findIndex(old => old.status === check.status);
+    if (index !== -1) {
+      remaining.splice(index, 1);
+    } else {
+      changed.push(check);
+    }
+  }
+  return {
+    pairs: changed.map((check, index): [AuditCheck | undefined, AuditCheck] => [remaining[index], check]),
+    unmatched: remaining.slice(changed.length),
+  };
+}
+
+/**
+ * Compare two audit reports section by section.
+ *
+ * A failing check that disappears while its component is still in the
+ * newer report counts as newly passing: component validators drop the
+ * per-rule failure once it is fixed, and emit a single pass check once
+ * the whole component is.
+ */
+export function diffAuditResults(previous: AuditResults, current: AuditResults): AuditDiff {
+  const newlyFailing: DiffEntry[] = [];
+  const newlyPassing: DiffEntry[] = [];
+  const statusChanged: DiffEntry[] = [];
+  const removed: DiffEntry[] = [];
+
+  for (const { key: section } of DIFF_SECTIONS) {
+    const before = groupByKey(previous[section]);
+    const after = groupByKey(current[section]);
+    const previousNodes = new Set(previous[section].map(c => c.nodeId).filter(Boolean));
+    const currentNodes = new Set(current[section].map(c => c.nodeId).filter(Boolean));
+    const unmatched: AuditCheck[] = [];
+
+    for (const [key, olds] of before) {
+      if (!after.has(key)) unmatched.push(...olds);
+    }
+
+    for (const [key, checks] of after) {
+      const { pairs, unmatched: leftover } = pairChecks(before.get(key) ?? [], checks);
+      unmatched.push(...leftover);
+      for (const [old, check] of pairs) {
+        if (check.status === 'fail') {
+          // A rule with no check on a known component was passing before
+          const previousStatus = old?.status ?? (check.nodeId && previousNodes.has(check.nodeId) ? 'pass' : undefined);
+          newlyFailing.push({ section, check, previousStatus, currentStatus: check.status });
+        } else if (old && check.status === 'pass') {
+          newlyPassing.push({ section, check, previousStatus: old.status, currentStatus: check.status });
+        } else if (old) {
+          statusChanged.push({ section, check, previousStatus: old.status, currentStatus: check.status });
+        }
+      }
+    }
+
+    for (const old of unmatched) {
+      if (old.nodeId && currentNodes.has(old.nodeId)) {
+        // Still present under a different rule: a fixed failure, or a
+        // passing component that now fails (already in newlyFailing)
+        if (old.status !== 'pass') {
+          newlyPassing.push({ section, check: old, previousStatus: old.status, currentStatus: 'pass' });
+        }
+      } else {
+        removed.push({ section, check: old, previousStatus: old.status });
+      }
+    }
+  }
+
+  return {
+    previous: { fileName: previous.fileName, timestamp: previous.timestamp },
+    current: { fileName: current.fileName, timestamp: current.timestamp },
+    scores: {
+      overall: scoreDelta(previous.scores.overall.score, current.scores.overall.score),
+      collection: scoreDelta(previous.scores.collection.score, current.scores.collection.score),
+      textStyle: scoreDelta(previous.scores.textStyle.score, current.scores.textStyle.score),
+      component: scoreDelta(previous.scores.component.score, current.scores.component.score),
+    },
+    newlyFailing,
+    newlyPassing,
+    statusChanged,
+    removed,
+  };
+}
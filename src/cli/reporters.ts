@@ -2,12 +2,18 @@
  * Output reporters for the CLI.
  *
  * Each reporter takes the structured audit results and writes them in a
- * particular format (JSON file, HTML standalone report, console summary).
+ * particular format (JSON file, HTML standalone report, Markdown, SARIF
+ * log, JUnit XML, console summary).
  */
 
 import { writeFileSync } from 'node:fs';
 import { resolve } from 'node:path';
 import type { AuditCheck } from '../types';
+import { applyRuleSeverities, RuleSeverities, RULES } from '../core/rules';
+import { buildFigmaUrl } from './url-parser';
+import { checkKey } from './baseline';
+import type { AuditDiff, DiffEntry, ScoreDelta } from './report-diff';
+import { DIFF_SECTIONS } from './report-diff';
 
 // ============================================================================
 // Types
@@ -26,6 +32,11 @@ export interface AuditResults {
   collectionStructure: AuditCheck[];
   textStyleSync: AuditCheck[];
   componentBindings: AuditCheck[];
+  /** Present when known failures were suppressed by a baseline file */
+  baseline?: {
+    path: string;
+    suppressed: number;
+  };
 }
 
 export interface ScoreStats {
@@ -65,13 +76,16 @@ export function reportToConsole(results: AuditResults): void {
   console.log('='.repeat(60));
 
   // Overall score
-  console.log(`\n  Overall score: ${scores.overall.score}%  (${scores.overall.passed} passed, ${scores.overall.failed} failed of ${scores.overall.total})`);
+  console.log(`\n  Overall score: ${scores.overall.score}%  (${scores.overall.passed} passed, ${scores.overall.warnings} warnings, ${scores.overall.failed} failed of ${scores.overall.total})`);
+  if (results.baseline) {
+    console.log(`  Baseline: ${results.baseline.suppressed} known failures ignored (${results.baseline.path})`);
+  }
 
   // Collection section
   if (results.collectionStructure.length > 0) {
     console.log(`\n--- Collection Structure (${scores.collection.score}%) ---`);
     for (const check of results.collectionStructure) {
-      console.log(`  ${statusIcon(check.status)} ${check.check}`);
+      console.log(`  ${statusIcon(check.status)} ${check.check}  (${check.ruleId})`);
     }
   }
 
@@ -79,7 +93,7 @@ export function reportToConsole(results: AuditResults): void {
   if (results.textStyleSync.length > 0) {
     console.log(`\n--- Text Styles (${scores.textStyle.score}%) ---`);
     for (const check of results.textStyleSync) {
-      console.log(`  ${statusIcon(check.status)} ${check.check}`);
+      console.log(`  ${statusIcon(check.status)} ${check.check}  (${check.ruleId})`);
     }
   }
 
@@ -88,7 +102,7 @@ export function reportToConsole(results: AuditResults): void {
     console.log(`\n--- Components (${scores.component.score}%) ---`);
     for (const check of results.componentBindings) {
       const page = (check as any).pageName ? ` [${(check as any).pageName}]` : '';
-      console.log(`  ${statusIcon(check.status)} ${check.check}${page}`);
+      console.log(`  ${statusIcon(check.status)} ${check.check}${page}  (${check.ruleId})`);
     }
   }
 
@@ -134,7 +148,7 @@ function buildChecksHtml(checks: AuditCheck[]): string {
     .map(c => {
       const page = (c as any).pageName ? ` <span style="color:#6b7280;font-size:12px;">[${escapeHtml((c as any).pageName)}]</span>` : '';
       return `<div style="margin:8px 0;padding:8px 12px;border-left:3px solid ${c.status === 'pass' ? '#22c55e' : c.status === 'fail' ? '#ef4444' : '#f59e0b'};background:#fafafa;border-radius:0 4px 4px 0;">
-  <div>${htmlStatusBadge(c.status)} <strong>${escapeHtml(c.check)}</strong>${page}</div>
+  <div>${htmlStatusBadge(c.status)} <strong>${escapeHtml(c.check)}</strong>${page} <code style="color:#6b7280;font-size:11px;">${escapeHtml(c.ruleId)}</code></div>
   <div style="margin-top:4px;font-size:13px;color:#374151;">${escapeHtml(c.suggestion)}</div>
 </div>`;
     })
@@ -165,7 +179,7 @@ export function reportToHtmlFile(results: AuditResults, outputPath: string): voi
 </head>
 <body>
 <h1>ctdsLint Audit Report</h1>
-<div class="meta">${escapeHtml(results.fileName)} &mdash; ${escapeHtml(results.timestamp)}</div>
+<div class="meta">${escapeHtml(results.fileName)} &mdash; ${escapeHtml(results.timestamp)}${results.baseline ? ` &mdash; ${results.baseline.suppressed} known failures ignored by baseline` : ''}</div>
 
 <div class="score-card">
   <div class="score-item"><div class="score-number">${scores.overall.score}%</div><div class="score-label">Overall</div></div>
@@ -197,28 +211,315 @@ export function reportToHtmlFile(results: AuditResults, outputPath: string): voi
   console.log(`HTML report written to: ${absPath}`);
 }
 
+// ============================================================================
+// Markdown Reporter
+// ============================================================================
+
+/**
+ * Default cap on Markdown report length. GitHub rejects comments longer
+ * than 65,536 characters, so leave headroom for surrounding text.
+ */
+export const MARKDOWN_MAX_LENGTH = 60000;
+
+/** Characters kept free for the closing tags and truncation notice */
+const MARKDOWN_TRUNCATION_RESERVE = 400;
+
+function markdownStatusIcon(status: string): string {
+  return status === 'fail' ? '\u274C' : status === 'warning' ? '\u26A0\uFE0F' : '\u2705';
+}
+
+/** Keep layer names like `<Button>` from being parsed as HTML tags */
+function escapeMarkdownTags(text: string): string {
+  return text.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function markdownCheckItem(check: AuditCheck, fileKey: string): string {
+  const checkText = escapeMarkdownTags(check.check);
+  const label = check.nodeId
+    ? `[${checkText.replace(/[[\]]/g, '\\$&')}](${buildFigmaUrl(fileKey, check.nodeId)})`
+    : checkText;
+  const page = check.pageName ? ` _(${escapeMarkdownTags(check.pageName)})_` : '';
+  const suggestion = check.suggestion
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(escapeMarkdownTags)
+    .join('<br>');
+  return `- ${markdownStatusIcon(check.status)} **${label}**${page} \`${check.ruleId}\`` +
+    (suggestion ? `<br>${suggestion}` : '');
+}
+
+/**
+ * Build a Markdown report for PR comments and review docs: a summary
+ * table of section scores followed by a collapsible block per section
+ * listing failing and warning checks (components link to Figma).
+ *
+ * Output is capped at `maxLength` characters; once the cap is reached
+ * the remaining checks are counted and a truncation notice is appended.
+ */
+export function buildMarkdownReport(results: AuditResults, maxLength: number = MARKDOWN_MAX_LENGTH): string {
+  const { scores } = results;
+  const warnings = (stats: ScoreStats | ComponentScoreStats): string =>
+    'warnings' in stats ? String(stats.warnings) : '\u2014';
+  const row = (label: string, stats: ScoreStats | ComponentScoreStats): string =>
+    `| ${label} | ${stats.score}% | ${stats.passed} | ${warnings(stats)} | ${stats.failed} |`;
+
+  let out = [
+    `## ctdsLint Audit Report — ${results.fileName}`,
+    '',
+    `_${results.timestamp}_` +
+      (results.baseline ? ` · ${results.baseline.suppressed} known failures ignored by baseline` : ''),
+    '',
+    '| Section | Score | Passed | Warnings | Failed |',
+    '|---|---|---|---|---|',
+    row('**Overall**', scores.overall),
+    row('Collections', scores.collection),
+    row('Text Styles', scores.textStyle),
+    row('Components', scores.component),
+    '',
+  ].join('\n');
+
+  const sections: [string, AuditCheck[], ScoreStats | ComponentScoreStats][] = [
+    ['Collection Structure', results.collectionStructure, scores.collection],
+    ['Text Styles', results.textStyleSync, scores.textStyle],
+    ['Components', results.componentBindings, scores.component],
+  ];
+
+  const budget = maxLength - MARKDOWN_TRUNCATION_RESERVE;
+  let omitted = 0;
+
+  for (const [title, checks, stats] of sections) {
+    const issues = checks.filter(c => c.status !== 'pass');
+    if (checks.length === 0) continue;
+
+    const open = `\n<details>\n<summary><b>${title}</b> — ${stats.score}% (${issues.length} issue${issues.length === 1 ? '' : 's'})</summary>\n\n`;
+    const close = '\n</details>\n';
+    if (omitted > 0 || out.length + open.length + close.length > budget) {
+      omitted += issues.length;
+      continue;
+    }
+
+    let block = issues.length === 0 ? '_All checks passed._\n' : '';
+    for (const check of issues) {
+      const item = markdownCheckItem(check, results.fileKey) + '\n';
+      if (omitted > 0 || out.length + open.length + block.length + item.length + close.length > budget) {
+        omitted++;
+        continue;
+      }
+      block += item;
+    }
+    out += open + block + close;
+  }
+
+  if (omitted > 0) {
+    out += `\n> **Report truncated:** ${omitted} more check${omitted === 1 ? '' : 's'} not shown. ` +
+      'Use `--format html` or `--format json` for the full report.\n';
+  }
+
+  return out;
+}
+
+export function reportToMarkdownFile(results: AuditResults, outputPath: string, maxLength?: number): void {
+  const absPath = resolve(outputPath);
+  writeFileSync(absPath, buildMarkdownReport(results, maxLength), 'utf-8');
+  console.log(`Markdown report written to: ${absPath}`);
+}
+
+// ============================================================================
+// SARIF Reporter
+// ============================================================================
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+/**
+ * Build a SARIF 2.1.0 log for code-scanning dashboards.
+ *
+ * Only failing and warning checks become results. Figma nodes have no
+ * source file, so each result carries a logical location (page / node ID)
+ * and uses the Figma deep link as its artifact URI.
+ */
+export function buildSarifLog(results: AuditResults): object {
+  const ruleIds = Object.keys(RULES);
+  const rules = ruleIds.map(id => ({
+    id,
+    shortDescription: { text: RULES[id].description },
+    defaultConfiguration: { level: RULES[id].defaultSeverity },
+  }));
+
+  const checks = [
+    ...results.collectionStructure,
+    ...results.textStyleSync,
+    ...results.componentBindings,
+  ].filter(c => c.status !== 'pass');
+
+  const sarifResults = checks.map(check => {
+    const logicalName = check.nodeId ?? check.check;
+    const fullyQualifiedName = check.pageName ? `${check.pageName}/${logicalName}` : logicalName;
+    const ruleIndex = ruleIds.indexOf(check.ruleId);
+    return {
+      ruleId: check.ruleId,
+      ...(ruleIndex >= 0 ? { ruleIndex } : {}),
+      level: check.status === 'fail' ? 'error' : 'warning',
+      message: { text: `${check.check}\n\n${check.suggestion}` },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: buildFigmaUrl(results.fileKey, check.nodeId) },
+        },
+        logicalLocations: [{
+          name: logicalName,
+          fullyQualifiedName,
+          kind: check.nodeId ? 'object' : 'module',
+        }],
+      }],
+      partialFingerprints: { ctdslintCheck: checkKey(check) },
+    };
+  });
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'ctdsLint',
+          rules,
+        },
+      },
+      automationDetails: { id: `ctdslint/${results.fileKey}/` },
+      results: sarifResults,
+    }],
+  };
+}
+
+export function reportToSarifFile(results: AuditResults, outputPath: string): void {
+  const absPath = resolve(outputPath);
+  writeFileSync(absPath, JSON.stringify(buildSarifLog(results), null, 2), 'utf-8');
+  console.log(`SARIF report written to: ${absPath}`);
+}
+
+// ============================================================================
+// JUnit Reporter
+// ============================================================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+interface JUnitTestCase {
+  name: string;
+  classname: string;
+  failure?: { message: string; type: string; body: string };
+  systemOut?: string;
+}
+
+function buildJUnitSuite(name: string, timestamp: string, cases: JUnitTestCase[]): string {
+  const failures = cases.filter(c => c.failure).length;
+  const body = cases.map(c => {
+    const inner = [
+      c.failure
+        ? `      <failure message="${escapeXml(c.failure.message)}" type="${escapeXml(c.failure.type)}">${escapeXml(c.failure.body)}</failure>`
+        : '',
+      c.systemOut ? `      <system-out>${escapeXml(c.systemOut)}</system-out>` : '',
+    ].filter(Boolean);
+    const open = `    <testcase name="${escapeXml(c.name)}" classname="${escapeXml(c.classname)}"`;
+    return inner.length > 0 ? `${open}>\n${inner.join('\n')}\n    </testcase>` : `${open}/>`;
+  }).join('\n');
+
+  const open = `  <testsuite name="${escapeXml(name)}" tests="${cases.length}" failures="${failures}" errors="0" skipped="0" timestamp="${escapeXml(timestamp)}"`;
+  return cases.length > 0 ? `${open}>\n${body}\n  </testsuite>` : `${open}/>`;
+}
+
+function wrapJUnitSuites(name: string, suites: string[], tests: number, failures: number): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="${escapeXml(name)}" tests="${tests}" failures="${failures}" errors="0">
+${suites.join('\n')}
+</testsuites>
+`;
+}
+
+function checkToTestCase(section: string, check: AuditCheck): JUnitTestCase {
+  const page = check.pageName ? ` [${check.pageName}]` : '';
+  const testCase: JUnitTestCase = {
+    name: `${check.check}${page}`,
+    classname: `ctdsLint.${section}.${check.ruleId}`,
+  };
+  if (check.status === 'fail') {
+    testCase.failure = { message: check.suggestion, type: check.ruleId, body: check.suggestion };
+  } else if (check.status === 'warning') {
+    testCase.systemOut = `WARNING: ${check.suggestion}`;
+  }
+  return testCase;
+}
+
+/**
+ * Build JUnit XML with one testsuite per audit section and one testcase
+ * per check. Failing checks become `<failure>` elements; warnings pass
+ * but keep their suggestion in `<system-out>`.
+ */
+export function buildJUnitXml(results: AuditResults): string {
+  const sections: [string, AuditCheck[]][] = [
+    ['collectionStructure', results.collectionStructure],
+    ['textStyleSync', results.textStyleSync],
+    ['componentBindings', results.componentBindings],
+  ];
+
+  let tests = 0;
+  let failures = 0;
+  const suites = sections.map(([section, checks]) => {
+    const cases = checks.map(check => checkToTestCase(section, check));
+    tests += cases.length;
+    failures += cases.filter(c => c.failure).length;
+    return buildJUnitSuite(section, results.timestamp, cases);
+  });
+
+  return wrapJUnitSuites(`ctdsLint — ${results.fileName}`, suites, tests, failures);
+}
+
+export function reportToJUnitFile(results: AuditResults, outputPath: string): void {
+  const absPath = resolve(outputPath);
+  writeFileSync(absPath, buildJUnitXml(results), 'utf-8');
+  console.log(`JUnit report written to: ${absPath}`);
+}
+
 // ============================================================================
 // Score Helpers (shared between CLI and reporters)
 // ============================================================================
 
-export function calculateAuditStats(checks: AuditCheck[]): ScoreStats {
-  if (checks.length === 0) {
+export function calculateAuditStats(checks: AuditCheck[], severities: RuleSeverities = {}): ScoreStats {
+  const effective = applyRuleSeverities(checks, severities);
+  if (effective.length === 0) {
     return { score: 100, passed: 0, warnings: 0, failed: 0, total: 0 };
   }
-  const passed = checks.filter(c => c.status === 'pass').length;
-  const failed = checks.filter(c => c.status === 'fail').length;
-  const total = checks.length;
+  const passed = effective.filter(c => c.status === 'pass').length;
+  const warnings = effective.filter(c => c.status === 'warning').length;
+  const failed = effective.filter(c => c.status === 'fail').length;
+  const total = effective.length;
   const score = Math.round((passed / total) * 100);
-  return { score, passed, warnings: 0, failed, total };
+  return { score, passed, warnings, failed, total };
 }
 
-export function calculateComponentStats(checks: AuditCheck[]): ComponentScoreStats {
-  if (checks.length === 0) {
+/**
+ * Component stats count components rather than checks: a component may
+ * emit one check per failing rule, and fails if any of them fail.
+ */
+export function calculateComponentStats(checks: AuditCheck[], severities: RuleSeverities = {}): ComponentScoreStats {
+  const effective = applyRuleSeverities(checks, severities);
+  if (effective.length === 0) {
     return { score: 100, passed: 0, failed: 0, total: 0 };
   }
-  const passed = checks.filter(c => c.status === 'pass').length;
-  const failed = checks.filter(c => c.status === 'fail').length;
-  const total = checks.length;
+  const failedByComponent = new Map<string, boolean>();
+  for (const check of effective) {
+    const key = check.nodeId ?? check.check;
+    failedByComponent.set(key, failedByComponent.get(key) === true || check.status === 'fail');
+  }
+  const total = failedByComponent.size;
+  const failed = Array.from(failedByComponent.values()).filter(Boolean).length;
+  const passed = total - failed;
   const score = Math.round((passed / total) * 100);
   return { score, passed, failed, total };
 }
@@ -346,6 +647,51 @@ export function reportComplexityToJsonFile(
   console.log(`Complexity JSON report written to: ${absPath}`);
 }
 
+/** Default composite score above which a component fails the JUnit report */
+export const DEFAULT_COMPLEXITY_THRESHOLD = 60;
+
+/**
+ * Build JUnit XML for a complexity audit: one testcase per component,
+ * failing when its composite score exceeds `threshold`.
+ */
+export function buildComplexityJUnitXml(
+  results: ComponentComplexityResult[],
+  threshold: number = DEFAULT_COMPLEXITY_THRESHOLD,
+): string {
+  const cases: JUnitTestCase[] = results.map(r => {
+    const summary = `Composite ${r.composite}/100 (${compositeLabel(r.composite)}): ` +
+      `CC ${r.cyclomatic.score}, Halstead volume ${r.halstead.volume}, ` +
+      `depth ${r.structural.maxDepth}, ${r.structural.nodeCount} nodes`;
+    const testCase: JUnitTestCase = {
+      name: r.componentName,
+      classname: 'ctdsLint.complexity',
+      systemOut: r.figmaUrl ? `${summary}\n${r.figmaUrl}` : summary,
+    };
+    if (r.composite > threshold) {
+      testCase.failure = {
+        message: `Composite complexity ${r.composite} exceeds threshold ${threshold}`,
+        type: 'complexity/composite-threshold',
+        body: summary,
+      };
+    }
+    return testCase;
+  });
+
+  const failures = cases.filter(c => c.failure).length;
+  const suite = buildJUnitSuite('complexity', new Date().toISOString(), cases);
+  return wrapJUnitSuites('ctdsLint Component Complexity', [suite], cases.length, failures);
+}
+
+export function reportComplexityToJUnitFile(
+  results: ComponentComplexityResult[],
+  outputPath: string,
+  threshold?: number,
+): void {
+  const absPath = resolve(outputPath);
+  writeFileSync(absPath, buildComplexityJUnitXml(results, threshold), 'utf-8');
+  console.log(`Complexity JUnit report written to: ${absPath}`);
+}
+
 // ============================================================================
 // Complexity HTML Reporter
 // ============================================================================
@@ -540,3 +886,187 @@ ${cards}
   writeFileSync(absPath, html, 'utf-8');
   console.log(`Complexity HTML report written to: ${absPath}`);
 }
+
+// ============================================================================
+// Diff Reporters
+// ============================================================================
+
+const DIFF_SCORE_ROWS: { key: keyof AuditDiff['scores']; label: string }[] = [
+  { key: 'overall', label: 'Overall' },
+  { key: 'collection', label: 'Collections' },
+  { key: 'textStyle', label: 'Text Styles' },
+  { key: 'component', label: 'Components' },
+];
+
+function formatDelta(delta: number): string {
+  if (delta === 0) return '±0';
+  return delta > 0 ? `+${delta}` : String(delta);
+}
+
+function sectionLabel(entry: DiffEntry): string {
+  return DIFF_SECTIONS.find(s => s.key === entry.section)?.label ?? entry.section;
+}
+
+function diffEntryLabel(entry: DiffEntry): string {
+  const page = entry.check.pageName ? ` [${entry.check.pageName}]` : '';
+  return `${entry.check.check}${page}  ${entry.previousStatus ?? 'new'} → ${entry.currentStatus ?? 'removed'}`;
+}
+
+export function reportDiffToConsole(diff: AuditDiff): void {
+  console.log('\n' + '='.repeat(60));
+  console.log('  ctdsLint Compliance Diff');
+  console.log(`  ${diff.previous.fileName} (${diff.previous.timestamp})`);
+  console.log(`  → ${diff.current.fileName} (${diff.current.timestamp})`);
+  console.log('='.repeat(60));
+
+  console.log('');
+  for (const { key, label } of DIFF_SCORE_ROWS) {
+    const s: ScoreDelta = diff.scores[key];
+    console.log(`  ${pad(label, 14)} ${pad(`${s.previous}%`, 6)} → ${pad(`${s.current}%`, 6)} ${formatDelta(s.delta)}`);
+  }
+
+  const printGroup = (title: string, icon: string, entries: DiffEntry[]): void => {
+    console.log(`\n--- ${title} (${entries.length}) ---`);
+    for (const entry of entries) {
+      console.log(`  ${icon} ${sectionLabel(entry)}: ${diffEntryLabel(entry)}  (${entry.check.ruleId})`);
+    }
+  };
+  printGroup('Newly failing', statusIcon('fail'), diff.newlyFailing);
+  printGroup('Newly passing', statusIcon('pass'), diff.newlyPassing);
+  printGroup('Status changed', statusIcon('warning'), diff.statusChanged);
+  printGroup('Removed', '•', diff.removed);
+
+  console.log('\n' + '='.repeat(60) + '\n');
+}
+
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+export function buildDiffMarkdown(diff: AuditDiff): string {
+  const lines: string[] = [
+    '# ctdsLint Compliance Diff',
+    '',
+    `**${diff.previous.fileName}** (${diff.previous.timestamp}) → **${diff.current.fileName}** (${diff.current.timestamp})`,
+    '',
+    '| Section | Before | After | Change |',
+    '|---|---|---|---|',
+    ...DIFF_SCORE_ROWS.map(({ key, label }) => {
+      const s = diff.scores[key];
+      return `| ${label} | ${s.previous}% | ${s.current}% | ${formatDelta(s.delta)} |`;
+    }),
+  ];
+
+  const group = (title: string, entries: DiffEntry[]): void => {
+    lines.push('', `## ${title} (${entries.length})`, '');
+    if (entries.length === 0) {
+      lines.push('_None_');
+      return;
+    }
+    lines.push('| Section | Check | Rule | Before | After |', '|---|---|---|---|---|');
+    for (const entry of entries) {
+      const page = entry.check.pageName ? ` [${entry.check.pageName}]` : '';
+      lines.push(
+        `| ${sectionLabel(entry)} | ${escapeMarkdownCell(entry.check.check + page)} | \`${entry.check.ruleId}\` | ${entry.previousStatus ?? 'new'} | ${entry.currentStatus ?? 'removed'} |`
+      );
+    }
+  };
+  group('Newly failing', diff.newlyFailing);
+  group('Newly passing', diff.newlyPassing);
+  group('Status changed', diff.statusChanged);
+  group('Removed', diff.removed);
+
+  return lines.join('\n') + '\n';
+}
+
+export function reportDiffToMarkdownFile(diff: AuditDiff, outputPath: string): void {
+  const absPath = resolve(outputPath);
+  writeFileSync(absPath, buildDiffMarkdown(diff), 'utf-8');
+  console.log(`Markdown diff written to: ${absPath}`);
+}
+
+function buildDiffEntriesHtml(entries: DiffEntry[]): string {
+  if (entries.length === 0) return '<p style="color:#6b7280;">None.</p>';
+  const rows = entries.map(entry => {
+    const page = entry.check.pageName ? ` <span style="color:#6b7280;font-size:12px;">[${escapeHtml(entry.check.pageName)}]</span>` : '';
+    const before = entry.previousStatus ? htmlStatusBadge(entry.previousStatus) : '<span style="color:#6b7280;">new</span>';
+    const now = entry.currentStatus ? htmlStatusBadge(entry.currentStatus) : '<span style="color:#6b7280;">removed</span>';
+    return `<tr>
+      <td>${escapeHtml(sectionLabel(entry))}</td>
+      <td><strong>${escapeHtml(entry.check.check)}</strong>${page}</td>
+      <td><code style="color:#6b7280;font-size:11px;">${escapeHtml(entry.check.ruleId ?? '')}</code></td>
+      <td>${before}</td>
+      <td>${now}</td>
+    </tr>`;
+  }).join('\n');
+  return `<table>
+  <thead><tr><th>Section</th><th>Check</th><th>Rule</th><th>Before</th><th>After</th></tr></thead>
+  <tbody>${rows}</tbody>
+</table>`;
+}
+
+export function reportDiffToHtmlFile(diff: AuditDiff, outputPath: string): void {
+  const deltaColor = (delta: number): string => delta > 0 ? '#22c55e' : delta < 0 ? '#ef4444' : '#6b7280';
+  const scoreItems = DIFF_SCORE_ROWS.map(({ key, label }) => {
+    const s = diff.scores[key];
+    return `<div class="score-item"><div class="score-number">${s.current}%</div><div class="score-delta" style="color:${deltaColor(s.delta)};">${formatDelta(s.delta)} (from ${s.previous}%)</div><div class="score-label">${label}</div></div>`;
+  }).join('\n  ');
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>ctdsLint Compliance Diff — ${escapeHtml(diff.current.fileName)}</title>
+<style>
+  * { margin:0; padding:0; box-sizing:border-box; }
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1f2937; background: #f9fafb; padding: 32px; max-width: 900px; margin: 0 auto; }
+  h1 { font-size: 24px; margin-bottom: 4px; }
+  .meta { color: #6b7280; font-size: 14px; margin-bottom: 24px; }
+  .score-card { display:flex; gap:16px; margin-bottom: 32px; flex-wrap: wrap; }
+  .score-item { flex:1; min-width:160px; background:#fff; border-radius:8px; padding:16px; box-shadow:0 1px 3px rgba(0,0,0,0.1); text-align:center; }
+  .score-number { font-size:36px; font-weight:700; }
+  .score-delta { font-size:13px; font-weight:600; }
+  .score-label { font-size:13px; color:#6b7280; }
+  .section { margin-bottom: 32px; }
+  .section h2 { font-size: 18px; margin-bottom: 12px; padding-bottom: 8px; border-bottom: 1px solid #e5e7eb; }
+  table { width:100%; border-collapse:collapse; background:#fff; font-size:13px; }
+  th, td { text-align:left; padding:8px 12px; border-bottom:1px solid #e5e7eb; vertical-align:top; }
+  th { font-size:12px; color:#6b7280; }
+</style>
+</head>
+<body>
+<h1>ctdsLint Compliance Diff</h1>
+<div class="meta">${escapeHtml(diff.previous.fileName)} (${escapeHtml(diff.previous.timestamp)}) &rarr; ${escapeHtml(diff.current.fileName)} (${escapeHtml(diff.current.timestamp)})</div>
+
+<div class="score-card">
+  ${scoreItems}
+</div>
+
+<div class="section">
+  <h2>Newly Failing (${diff.newlyFailing.length})</h2>
+  ${buildDiffEntriesHtml(diff.newlyFailing)}
+</div>
+
+<div class="section">
+  <h2>Newly Passing (${diff.newlyPassing.length})</h2>
+  ${buildDiffEntriesHtml(diff.newlyPassing)}
+</div>
+
+<div class="section">
+  <h2>Status Changed (${diff.statusChanged.length})</h2>
+  ${buildDiffEntriesHtml(diff.statusChanged)}
+</div>
+
+<div class="section">
+  <h2>Removed (${diff.removed.length})</h2>
+  ${buildDiffEntriesHtml(diff.removed)}
+</div>
+
+</body>
+</html>`;
+
+  const absPath = resolve(outputPath);
+  writeFileSync(absPath, html, 'utf-8');
+  console.log(`HTML diff written to: ${absPath}`);
+}
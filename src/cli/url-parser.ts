@@ -1,5 +1,6 @@
 /**
- * Parse Figma URLs to extract file key and node ID.
+ * Parse Figma URLs to extract file key and node ID, and build deep links
+ * back into a file.
  *
  * Supports:
  *   https://www.figma.com/design/FILEKEY/Name?node-id=123-456
@@ -54,3 +55,10 @@ export function parseFigmaUrl(url: string): FigmaUrlParts {
 
   return { fileKey, nodeId };
 }
+
+/** Build a Figma deep-link URL from a file key and optional node ID. */
+export function buildFigmaUrl(fileKey: string, nodeId?: string): string {
+  if (!nodeId) return `https://www.figma.com/design/${fileKey}`;
+  const hyphenated = nodeId.replace(/:/g, '-');
+  return `https://www.figma.com/design/${fileKey}?node-id=${hyphenated}`;
+}
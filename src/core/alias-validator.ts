@@ -0,0 +1,261 @@
+/**
+ * Alias graph validation.
+ *
+ * Follows every variable's alias chain in each of its modes and reports
+ * four independent problems, each under its own rule:
+ *
+ *   - broken references – an alias points at a variable ID that does not
+ *     exist locally (deleted, or a library variable that is not available)
+ *   - cycles            – a chain that loops back on itself
+ *   - excessive depth   – more alias hops than the configured limit
+ *   - type mismatches   – modes of one variable resolving to different
+ *     value types (e.g. a colour in Light and a number in Dark)
+ *
+ * Chains are followed the same way values are resolved elsewhere (see
+ * `traceAlias`): aliases within a collection stay in the starting mode,
+ * aliases into another collection use that collection's default mode.
+ */
+
+import { AuditCheck } from '../types';
+import type { LintVariable, LintVariableCollection } from '../shared/types';
+import { RULE_IDS, RuleSeverities, getRuleSeverity } from './rules';
+import { traceAlias, AliasTrace, ResolvedValue, isColorValue, modeName } from './token-resolver';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AliasProblem = 'broken' | 'cycle' | 'depth' | 'type-mismatch';
+
+/**
+ * One problem found on a variable
+ */
+export interface AliasFinding {
+  problem: AliasProblem;
+  variableId: string;
+  variableName: string;
+  collectionName: string;
+  /** Mode the chain was followed in (all modes for type mismatches) */
+  modeName?: string;
+  /** Variable names along the chain, starting with the variable itself */
+  chain: string[];
+  /** Human-readable detail, e.g. the missing ID or the types per mode */
+  detail: string;
+}
+
+/**
+ * Alias settings from the project config
+ */
+export interface AliasOptions {
+  /** Maximum alias hops from a variable to its concrete value */
+  maxDepth: number;
+}
+
+export interface AliasValidationResult {
+  findings: AliasFinding[];
+  auditChecks: AuditCheck[];
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Component → semantic → brand → primitive */
+export const DEFAULT_ALIAS_OPTIONS: AliasOptions = {
+  maxDepth: 3,
+};
+
+/**
+ * Rule and report wording for each problem
+ */
+const PROBLEM_RULES: Record<AliasProblem, { ruleId: string; label: string; passMessage: string; fix: string }> = {
+  broken: {
+    ruleId: RULE_IDS.aliasBroken,
+    label: 'broken alias',
+    passMessage: 'Every alias points at an existing variable',
+    fix: 'Re-point the alias at an existing variable, or enable the library it came from.',
+  },
+  cycle: {
+    ruleId: RULE_IDS.aliasCycle,
+    label: 'alias cycle',
+    passMessage: 'No alias chain loops back on itself',
+    fix: 'Replace one alias in the loop with a concrete value or a variable outside the loop.',
+  },
+  depth: {
+    ruleId: RULE_IDS.aliasDepth,
+    label: 'alias chain too deep',
+    passMessage: 'Every alias chain is within the depth limit',
+    fix: 'Alias a variable closer to the primitive value to shorten the chain.',
+  },
+  'type-mismatch': {
+    ruleId: RULE_IDS.aliasTypeMismatch,
+    label: 'modes resolve to different types',
+    passMessage: 'Every variable resolves to the same type in all modes',
+    fix: 'Make every mode resolve to the same type (alias variables of one type only).',
+  },
+};
+
+const PROBLEM_ORDER: AliasProblem[] = ['broken', 'cycle', 'depth', 'type-mismatch'];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function valueType(value: ResolvedValue): string {
+  return isColorValue(value) ? 'color' : typeof value;
+}
+
+function chainNames(trace: AliasTrace): string[] {
+  return trace.chain.map(v => v.name);
+}
+
+/**
+ * Variables forming the loop of a cycle trace, without the variables that
+ * merely lead into it
+ */
+function cycleMembers(trace: AliasTrace): LintVariable[] {
+  const repeated = trace.chain[trace.chain.length - 1];
+  return trace.chain.slice(trace.chain.indexOf(repeated), -1);
+}
+
+/**
+ * Problems found on one variable in one mode. A broken reference is only
+ * reported on the variable holding the dangling alias, and a cycle only on
+ * its members, so variables upstream of either don't repeat the finding.
+ */
+function inspectTrace(
+  variable: LintVariable,
+  trace: AliasTrace,
+  maxDepth: number
+): Array<{ problem: AliasProblem; detail: string }> {
+  const chain = chainNames(trace).join(' → ');
+  switch (trace.status) {
+    case 'broken':
+      return trace.chain[trace.chain.length - 1] === variable
+        ? [{ problem: 'broken', detail: `${chain} → missing variable ${trace.missingId}` }]
+        : [];
+    case 'cycle': {
+      const members = cycleMembers(trace);
+      return members.includes(variable)
+        ? [{ problem: 'cycle', detail: [...members, members[0]].map(v => v.name).join(' → ') }]
+        : [];
+    }
+    case 'too-deep':
+      return [{ problem: 'depth', detail: `more than ${trace.depth} hops: ${chain} → …` }];
+    case 'resolved':
+      return trace.depth > maxDepth
+        ? [{ problem: 'depth', detail: `${trace.depth} hops (limit ${maxDepth}): ${chain}` }]
+        : [];
+    default:
+      return [];
+  }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate the alias graph of all local variables.
+ *
+ * @param collections - Variable collections (for mode names and default modes)
+ * @param variables - All local variables
+ * @param options - Alias settings from the project config
+ * @param severities - Optional rule severity overrides from the project config
+ */
+export function validateAliasGraph(
+  collections: LintVariableCollection[],
+  variables: LintVariable[],
+  options: AliasOptions = DEFAULT_ALIAS_OPTIONS,
+  severities: RuleSeverities = {}
+): AliasValidationResult {
+  const findings: AliasFinding[] = [];
+  const auditChecks: AuditCheck[] = [];
+
+  try {
+    console.log('🔗 [ALIAS] Checking alias graph of', variables.length, 'variables...');
+    const collectionsById = new Map(collections.map(c => [c.id, c]));
+    const variablesById = new Map(variables.map(v => [v.id, v]));
+    // Cycles already reported, keyed by sorted member IDs and mode
+    const reportedCycles = new Set<string>();
+
+    for (const variable of variables) {
+      const collection = collectionsById.get(variable.variableCollectionId);
+      const base = {
+        variableId: variable.id,
+        variableName: variable.name,
+        collectionName: collection?.name ?? '',
+      };
+      const typesByMode: Array<{ modeName: string; type: string }> = [];
+
+      for (const modeId of Object.keys(variable.valuesByMode)) {
+        const trace = traceAlias(variable, variablesById, collectionsById, modeId);
+        const name = modeName(collection, modeId);
+
+        for (const { problem, detail } of inspectTrace(variable, trace, options.maxDepth)) {
+          if (problem === 'cycle') {
+            const key = `${cycleMembers(trace).map(v => v.id).sort().join('\u0000')}\u0000${name}`;
+            if (reportedCycles.has(key)) continue;
+            reportedCycles.add(key);
+          }
+          findings.push({ ...base, problem, modeName: name, chain: chainNames(trace), detail });
+        }
+        if (trace.status === 'resolved' && trace.value !== undefined) {
+          typesByMode.push({ modeName: name, type: valueType(trace.value) });
+        }
+      }
+
+      if (new Set(typesByMode.map(t => t.type)).size > 1) {
+        findings.push({
+          ...base,
+          problem: 'type-mismatch',
+          chain: [variable.name],
+          detail: typesByMode.map(t => `${t.modeName}: ${t.type}`).join(', '),
+        });
+      }
+    }
+
+    for (const problem of PROBLEM_ORDER) {
+      const rule = PROBLEM_RULES[problem];
+      const severity = getRuleSeverity(rule.ruleId, severities);
+      if (severity === 'off') continue;
+
+      const problemFindings = findings.filter(f => f.problem === problem);
+      if (problemFindings.length === 0) {
+        auditChecks.push({
+          ruleId: rule.ruleId,
+          check: `Variable aliases — ${rule.label}`,
+          status: 'pass',
+          suggestion: rule.passMessage,
+        });
+        continue;
+      }
+
+      for (const finding of problemFindings) {
+        auditChecks.push({
+          ruleId: rule.ruleId,
+          check: `${finding.variableName}${finding.modeName ? ` (${finding.modeName})` : ''} — ${rule.label}`,
+          status: severity === 'warning' ? 'warning' : 'fail',
+          suggestion: `${finding.collectionName ? `${finding.collectionName}: ` : ''}${finding.detail}\n\nTo fix: ${rule.fix}`,
+        });
+      }
+    }
+
+    console.log('🔗 [ALIAS] Complete:', PROBLEM_ORDER.reduce<Record<string, number>>((counts, problem) => {
+      counts[problem] = findings.filter(f => f.problem === problem).length;
+      return counts;
+    }, {}));
+    return { findings, auditChecks };
+  } catch (error) {
+    console.error('❌ [ALIAS] Error checking alias graph:', error);
+    return {
+      findings,
+      auditChecks: [{
+        ruleId: RULE_IDS.aliasBroken,
+        check: 'Variable aliases',
+        status: 'warning',
+        suggestion: `Could not check the alias graph: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      }],
+    };
+  }
+}
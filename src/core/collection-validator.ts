@@ -6,7 +6,7 @@
  * or the Figma REST API via the CLI.
  */
 
-import { AuditCheck } from '../types';
+import { AuditCheck, AuditRawValue, TokenSuggestion } from '../types';
 import type {
   LintVariable,
   LintVariableCollection,
@@ -15,9 +15,12 @@ import type {
   LintNode,
   LintComponent,
   LintRGBA,
+  LintPaint,
   LintSolidPaint,
   LintBoundVariable,
 } from '../shared/types';
+import { RULE_IDS, RuleSeverities, getRuleSeverity } from './rules';
+import { ResolvedVariable, TokenKind, findNearestToken, formatTokenSuggestion, compileNamePattern, listLines } from './token-resolver';
 
 // ============================================================================
 // Types
@@ -267,6 +270,7 @@ export function validateCollectionStructure(
         if (requirement.displayName === 'Brand' && themeConnectedToPrimitives) {
           console.log(`✅ [COLLECTION] Brand collection optional - Theme is connected to Primitives`);
           auditChecks.push({
+            ruleId: RULE_IDS.missingCollection,
             check: `${requirement.displayName} collection`,
             status: 'pass',
             suggestion: `Brand collection not required - Theme variables are connected directly to Primitives. This is a valid design token architecture.`
@@ -290,6 +294,7 @@ export function validateCollectionStructure(
         }).join('\n');
 
         auditChecks.push({
+          ruleId: RULE_IDS.missingCollection,
           check: `${requirement.displayName} collection`,
           status: 'fail',
           suggestion: `No "${requirement.displayName}" collection found. Create one with these categories:\n\n${examples}\n\nThis collection is required for a complete design system structure.`
@@ -318,6 +323,7 @@ export function validateCollectionStructure(
       // Generate audit checks for this collection
       if (validationResult.isValid) {
         auditChecks.push({
+          ruleId: RULE_IDS.collectionStructure,
           check: `${requirement.displayName} collection structure`,
           status: 'pass',
           suggestion: `"${matchingCollection.name}" has all required categories: ${validationResult.foundCategories.join(', ')}`
@@ -339,6 +345,7 @@ export function validateCollectionStructure(
           }).join('\n');
 
           auditChecks.push({
+            ruleId: RULE_IDS.missingCategory,
             check: `${requirement.displayName} collection categories`,
             status: 'fail',
             suggestion: `"${matchingCollection.name}" collection is missing required categories: ${validationResult.missingCategories.join(', ')}.\n\nAdd variables following these patterns:\n${missingExamples}\n\nThese categories are essential for a complete ${requirement.displayName} collection.`
@@ -352,6 +359,7 @@ export function validateCollectionStructure(
             const exampleVars = subResult.missing.slice(0, 3).map(m => `  - ${subResult.category}/${m}`).join('\n');
 
             auditChecks.push({
+              ruleId: RULE_IDS.missingSubCategory,
               check: `${requirement.displayName} ${subResult.category} sub-categories`,
               status: 'fail',
               suggestion: `"${matchingCollection.name}" ${subResult.category} category is missing sub-categories: ${missingList}.\n\nAdd these variables to complete your ${subResult.category} scale:\n${exampleVars}\n\nConsistent sub-categories across all categories are required for a complete design system.`
@@ -366,6 +374,7 @@ export function validateCollectionStructure(
               const exampleVars = examples.slice(0, 3).map(ex => `  - ${ex}`).join('\n');
 
               auditChecks.push({
+                ruleId: RULE_IDS.subCategoryNaming,
                 check: `${requirement.displayName} ${subResult.category} naming`,
                 status: 'fail',
                 suggestion: `"${matchingCollection.name}" ${subResult.category} category has no sub-categories following the expected naming pattern.\n\nExpected pattern: ${patternDescription}\n\nAdd variables like:\n${exampleVars}\n\nConsistent naming is required for a predictable design system.`
@@ -375,6 +384,7 @@ export function validateCollectionStructure(
               const foundList = subResult.found.slice(0, 5).join(', ') + (subResult.found.length > 5 ? `... (${subResult.found.length} total)` : '');
 
               auditChecks.push({
+                ruleId: RULE_IDS.subCategoryNaming,
                 check: `${requirement.displayName} ${subResult.category} naming`,
                 status: 'pass',
                 suggestion: `"${matchingCollection.name}" ${subResult.category} follows the correct naming pattern with sizes: ${foundList}`
@@ -390,6 +400,7 @@ export function validateCollectionStructure(
               const exampleVars = missingSizes.slice(0, 3).map(sz => `  - ${subResult.category}/${sz}`).join('\n');
 
               auditChecks.push({
+                ruleId: RULE_IDS.mirrorMismatch,
                 check: `${requirement.displayName} ${subResult.category} sizes`,
                 status: 'fail',
                 suggestion: `"${matchingCollection.name}" ${subResult.category} is missing sizes that exist in ${sourceCategory}: ${missingList}.\n\nAdd these variables to mirror your ${sourceCategory} scale:\n${exampleVars}\n\nKeeping ${subResult.category} and ${sourceCategory} synchronized is required for consistent typography.`
@@ -399,6 +410,7 @@ export function validateCollectionStructure(
               const extraList = extraSizes.slice(0, 5).join(', ') + (extraSizes.length > 5 ? `, and ${extraSizes.length - 5} more` : '');
 
               auditChecks.push({
+                ruleId: RULE_IDS.mirrorMismatch,
                 check: `${requirement.displayName} ${subResult.category} extra sizes`,
                 status: 'fail',
                 suggestion: `"${matchingCollection.name}" ${subResult.category} has sizes that don't exist in ${sourceCategory}: ${extraList}.\n\nFix by either:\n  - Adding these sizes to ${sourceCategory} (if they're needed)\n  - Removing them from ${subResult.category} (if they're unused)\n\nMatched scales are required for consistent typography.`
@@ -406,6 +418,7 @@ export function validateCollectionStructure(
             }
             if (isFullMatch && subResult.found.length > 0) {
               auditChecks.push({
+                ruleId: RULE_IDS.mirrorMismatch,
                 check: `${requirement.displayName} ${subResult.category} mirrors ${sourceCategory}`,
                 status: 'pass',
                 suggestion: `"${matchingCollection.name}" ${subResult.category} correctly mirrors all ${sourceCategory} sizes (${subResult.found.length} sizes matched)`
@@ -422,6 +435,7 @@ export function validateCollectionStructure(
     if (validatedCollections.length > 0) {
       if (validatedCollections.every(v => v.isValid)) {
         auditChecks.unshift({
+          ruleId: RULE_IDS.collectionStructure,
           check: 'Variable collection structure',
           status: 'pass',
           suggestion: `All detected collections (${validatedCollections.map(v => v.matchedRequirement).join(', ')}) have proper structure`
@@ -449,6 +463,7 @@ export function validateCollectionStructure(
       validatedCollections: [],
       missingCollections: requirements.map(r => r.displayName),
       auditChecks: [{
+        ruleId: RULE_IDS.collectionStructure,
         check: 'Variable collection structure',
         status: 'fail',
         suggestion: `Could not validate variable collections: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -726,6 +741,7 @@ export function validateTextStylesAgainstVariables(
       const exampleVars = relevantTextCategories.slice(0, 3).map(cat => `  - font-family/${cat}`).join('\n');
 
       auditChecks.push({
+        ruleId: RULE_IDS.fontFamilySync,
         check: 'Font-family variables',
         status: 'warning',
         suggestion: `You have text styles (${categoryList}) but no matching font-family variables.\n\nAdd these variables to your Theme collection:\n${exampleVars}\n\nThis allows text styles to reference font families as variables instead of hard-coded font names.`
@@ -736,6 +752,7 @@ export function validateTextStylesAgainstVariables(
       const exampleStyles = fontFamilyVariables.slice(0, 3).map(v => `  - ${v}/xl, ${v}/lg, ${v}/md, etc.`).join('\n');
 
       auditChecks.push({
+        ruleId: RULE_IDS.fontFamilySync,
         check: 'Text styles',
         status: 'warning',
         suggestion: `You have font-family variables (${varList}) but no matching text styles.\n\nCreate text styles following these patterns:\n${exampleStyles}\n\nText styles make typography consistent and easier to apply across your designs.`
@@ -747,6 +764,7 @@ export function validateTextStylesAgainstVariables(
         const exampleStyles = variablesMissingStyles.slice(0, 3).map(v => `  - ${v}/xl, ${v}/lg, ${v}/md`).join('\n');
 
         auditChecks.push({
+          ruleId: RULE_IDS.fontFamilySync,
           check: 'Text styles for font-family variables',
           status: 'fail',
           suggestion: `These font-family variables don't have matching text styles: ${varList}.\n\nCreate text styles using these patterns:\n${exampleStyles}\n\nAll font-family variables must have matching text styles.`
@@ -758,6 +776,7 @@ export function validateTextStylesAgainstVariables(
         const exampleVars = stylesMissingVariables.slice(0, 3).map(s => `  - font-family/${s}`).join('\n');
 
         auditChecks.push({
+          ruleId: RULE_IDS.fontFamilySync,
           check: 'Font-family variables for text styles',
           status: 'fail',
           suggestion: `These text style categories don't have matching font-family variables: ${styleList}.\n\nAdd these variables to your Theme collection:\n${exampleVars}\n\nText styles must reference font-family variables dynamically.`
@@ -767,6 +786,7 @@ export function validateTextStylesAgainstVariables(
       // Only show pass message if there are NO mismatches
       if (isFullMatch && fontFamilyVariables.length > 0) {
         auditChecks.push({
+          ruleId: RULE_IDS.fontFamilySync,
           check: 'Text styles & font-family sync',
           status: 'pass',
           suggestion: `All font-family variables (${fontFamilyVariables.join(', ')}) have matching text styles`
@@ -787,6 +807,7 @@ export function validateTextStylesAgainstVariables(
         isFullMatch: false
       },
       auditChecks: [{
+        ruleId: RULE_IDS.fontFamilySync,
         check: 'Text style validation',
         status: 'fail',
         suggestion: `Could not validate text styles: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -1033,6 +1054,7 @@ export function validateTextStyleBindings(
       });
 
       auditChecks.push({
+        ruleId: RULE_IDS.textStyleUnbound,
         check: 'Text style variable bindings',
         status: 'fail',
         suggestion: `${unboundIssues.length} text style(s) have hard-coded values instead of using theme variables:\n\n${issueDescriptions.join('\n\n')}\n\nTo fix: Select each text style in Figma, then connect the listed properties to their corresponding variables using the variable binding feature.`
@@ -1055,6 +1077,7 @@ export function validateTextStyleBindings(
       });
 
       auditChecks.push({
+        ruleId: RULE_IDS.textStyleBindingName,
         check: 'Text style variable naming',
         status: 'fail',
         suggestion: `${bindingIssues.length} text style(s) are connected to variables with mismatched size values:\n\n${issueDescriptions.join('\n\n')}\n\nEach text style must be bound to variables that match its size. For example, "heading/sm/light" should use "letter-spacing/heading/sm", not "letter-spacing/heading/md".`
@@ -1064,6 +1087,7 @@ export function validateTextStyleBindings(
     // Only show pass message if there are NO issues at all
     if (unboundIssues.length === 0 && bindingIssues.length === 0 && totalStyles > 0) {
       auditChecks.push({
+        ruleId: RULE_IDS.textStyleUnbound,
         check: 'Text style variable bindings',
         status: 'pass',
         suggestion: `All ${totalStyles} text styles use correctly named theme variables for typography properties`
@@ -1083,6 +1107,7 @@ export function validateTextStyleBindings(
     return {
       results,
       auditChecks: [{
+        ruleId: RULE_IDS.textStyleUnbound,
         check: 'Text style variable bindings',
         status: 'fail',
         suggestion: `Could not validate text style bindings: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -1098,7 +1123,17 @@ export function validateTextStyleBindings(
 /**
  * Property categories that should use theme variables in components
  */
-type ComponentPropertyCategory = 'fill' | 'stroke' | 'effect' | 'spacing' | 'cornerRadius' | 'typography';
+type ComponentPropertyCategory =
+  | 'fill'
+  | 'image'
+  | 'stroke'
+  | 'strokeWeight'
+  | 'effect'
+  | 'spacing'
+  | 'sizing'
+  | 'cornerRadius'
+  | 'opacity'
+  | 'typography';
 
 /**
  * Result of checking a single node for raw values
@@ -1109,11 +1144,59 @@ interface NodeRawValueResult {
   nodeType: string;
   rawValues: Array<{
     category: ComponentPropertyCategory;
+    /** Node field holding the value (e.g. `fills`, `paddingTop`, `fontSize`) */
+    field: string;
+    /** Index into the paint/effect array for array fields */
+    index?: number;
+    /** Character range for a run of mixed-format text */
+    range?: { start: number; end: number };
+    /** Gradient stop index within the paint */
+    stop?: number;
     property: string;
     value: string;
+    /** Closest variable (only when variables were supplied) */
+    tokenSuggestion?: TokenSuggestion;
   }>;
 }
 
+/**
+ * Where variables matching a name pattern may be bound
+ */
+export interface SemanticRole {
+  /** Variable name pattern; `*` matches any characters */
+  tokens: string;
+  /** Node properties the variables may be bound to (e.g. `fills`, `strokes`) */
+  properties: string[];
+  /** Node types the variables may be used on; any type when omitted */
+  nodeTypes?: string[];
+}
+
+/**
+ * A variable bound outside its semantic role
+ */
+export interface RoleMismatch {
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  property: string;
+  variableName: string;
+  role: SemanticRole;
+}
+
+/**
+ * A text layer whose typography is not tied to the library: no text style
+ * and no typography variables, or a text style from another library
+ */
+export interface TextStyleIssue {
+  nodeId: string;
+  nodeName: string;
+  kind: 'unstyled' | 'foreign-style';
+  /** Applied style ID (kind 'foreign-style') */
+  textStyleId?: string;
+  /** Affected characters, e.g. `characters 1–5 "Hello"`, for mixed-format text */
+  label?: string;
+}
+
 /**
  * Result of validating component variable bindings
  */
@@ -1130,6 +1213,105 @@ export interface ComponentBindingValidationResult {
   rawValueCounts: Record<ComponentPropertyCategory, number>;
   /** Whether component is fully bound to variables */
   isFullyBound: boolean;
+  /** Bindings to variables outside their semantic role */
+  roleMismatches: RoleMismatch[];
+  /** Text layers without a library text style or typography variables */
+  textStyleIssues: TextStyleIssue[];
+}
+
+/**
+ * Default semantic roles: background colours on container and shape fills,
+ * text colours on text fills, border colours on strokes
+ */
+export const DEFAULT_SEMANTIC_ROLES: SemanticRole[] = [
+  {
+    tokens: 'colors/bg/*',
+    properties: ['fills'],
+    nodeTypes: ['FRAME', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE', 'RECTANGLE', 'ELLIPSE', 'SECTION'],
+  },
+  { tokens: 'colors/text/*', properties: ['fills'], nodeTypes: ['TEXT'] },
+  { tokens: 'colors/border/*', properties: ['strokes'] },
+];
+
+/**
+ * Typography properties checked on component text layers
+ */
+const TEXT_NODE_TYPOGRAPHY = ['fontFamily', 'fontWeight', 'fontSize', 'lineHeight', 'letterSpacing'] as const;
+
+/** Corner radius fields with their report labels */
+const CORNER_RADII = [
+  ['topLeftRadius', 'top-left radius'],
+  ['topRightRadius', 'top-right radius'],
+  ['bottomRightRadius', 'bottom-right radius'],
+  ['bottomLeftRadius', 'bottom-left radius'],
+] as const;
+
+/** Per-side stroke weight fields with their report labels */
+const STROKE_SIDES = [
+  ['strokeTopWeight', 'top stroke weight'],
+  ['strokeRightWeight', 'right stroke weight'],
+  ['strokeBottomWeight', 'bottom stroke weight'],
+  ['strokeLeftWeight', 'left stroke weight'],
+] as const;
+
+/** Sizing constraint fields with their report labels */
+const SIZING_CONSTRAINTS = [
+  ['minWidth', 'min width'],
+  ['maxWidth', 'max width'],
+  ['minHeight', 'min height'],
+  ['maxHeight', 'max height'],
+] as const;
+
+/**
+ * Whether a text node has a single text style applied
+ */
+function hasTextStyle(node: LintNode): boolean {
+  return typeof node.textStyleId === 'string' && node.textStyleId !== '' && node.textStyleId !== 'MIXED';
+}
+
+/**
+ * Text with uniform typography: the whole node, or one styled run
+ */
+interface TextRun {
+  source: Pick<LintNode, typeof TEXT_NODE_TYPOGRAPHY[number]>;
+  boundVariables: LintNode['boundVariables'];
+  textStyleId?: string;
+  /** Whether a single text style is applied */
+  styled: boolean;
+  range?: { start: number; end: number };
+  /** Affected characters, e.g. `characters 1–5 "Hello"` */
+  label?: string;
+}
+
+/** Characters of a run quoted in reports before truncating */
+const MAX_QUOTED_CHARACTERS = 20;
+
+/**
+ * Split a text node into runs of uniform typography. Nodes without styled
+ * segments are one run.
+ */
+function textRuns(node: LintNode): TextRun[] {
+  if (!node.textSegments || node.textSegments.length < 2) {
+    return [{
+      source: node,
+      boundVariables: node.boundVariables || {},
+      textStyleId: typeof node.textStyleId === 'string' && node.textStyleId !== 'MIXED' ? node.textStyleId : undefined,
+      styled: hasTextStyle(node),
+    }];
+  }
+
+  return node.textSegments.map(segment => {
+    const text = segment.characters.replace(/\s+/g, ' ');
+    const quoted = text.length > MAX_QUOTED_CHARACTERS ? `${text.slice(0, MAX_QUOTED_CHARACTERS - 1)}…` : text;
+    return {
+      source: segment,
+      boundVariables: segment.boundVariables,
+      textStyleId: segment.textStyleId || undefined,
+      styled: !!segment.textStyleId,
+      range: { start: segment.start, end: segment.end },
+      label: `characters ${segment.start + 1}–${segment.end} "${quoted}"`,
+    };
+  });
 }
 
 /**
@@ -1155,24 +1337,64 @@ function formatColor(color: LintRGBA): string {
 
 /**
  * Check a node for raw values that should be using variables
+ *
+ * @param node - Node to inspect (children are not visited)
+ * @param tokens - Resolved variables to suggest replacements from
  */
-function checkNodeForRawValues(node: LintNode): NodeRawValueResult {
+function checkNodeForRawValues(node: LintNode, tokens?: ResolvedVariable[]): NodeRawValueResult {
   const rawValues: NodeRawValueResult['rawValues'] = [];
   const boundVars = node.boundVariables || {};
+  const suggest = (kind: TokenKind, raw: LintRGBA | number | string): TokenSuggestion | undefined =>
+    tokens ? findNearestToken(kind, raw, tokens) : undefined;
+  // Gradient stop colours are bound per stop
+  const checkGradientStops = (paint: LintPaint, index: number, category: 'fill' | 'stroke', field: 'fills' | 'strokes') => {
+    if (!('gradientStops' in paint) || !paint.gradientStops || paint.visible === false) return;
+    paint.gradientStops.forEach((stop, stopIndex) => {
+      if (!stop.boundVariables?.color?.id && !isTransparentColor(stop.color)) {
+        rawValues.push({
+          category,
+          field,
+          index,
+          stop: stopIndex,
+          property: `gradient stop ${stopIndex + 1} ${category === 'fill' ? 'fill' : 'stroke'} color`,
+          value: formatColor(stop.color),
+          tokenSuggestion: suggest('color', stop.color)
+        });
+      }
+    });
+  };
+  // A paint or effect style stands in for variable bindings
+  const hasStyle = (styleId: string | undefined) => typeof styleId === 'string' && styleId !== '' && styleId !== 'MIXED';
   
   // Check fills (colors)
   if (node.fills && Array.isArray(node.fills)) {
     const fillBindings = (boundVars.fills as LintBoundVariable[] | undefined) || [];
+    const styled = hasStyle(node.fillStyleId);
     
     node.fills.forEach((fill, index) => {
+      // Images are reported whether or not a style applies them
+      if (fill.type === 'IMAGE' && fill.visible !== false) {
+        rawValues.push({
+          category: 'image',
+          field: 'fills',
+          index,
+          property: 'fill',
+          value: 'image'
+        });
+      }
+      if (styled) return;
+      checkGradientStops(fill, index, 'fill', 'fills');
       if (fill.type === 'SOLID' && fill.visible !== false) {
         const solidFill = fill as LintSolidPaint;
         const hasBinding = fillBindings[index] && fillBindings[index].id;
         if (!hasBinding && !isTransparentColor(solidFill.color)) {
           rawValues.push({
             category: 'fill',
+            field: 'fills',
+            index,
             property: 'fill color',
-            value: formatColor(solidFill.color)
+            value: formatColor(solidFill.color),
+            tokenSuggestion: suggest('color', solidFill.color)
           });
         }
       }
@@ -1180,18 +1402,22 @@ function checkNodeForRawValues(node: LintNode): NodeRawValueResult {
   }
   
   // Check strokes (border colors)
-  if (node.strokes && Array.isArray(node.strokes)) {
+  if (node.strokes && Array.isArray(node.strokes) && !hasStyle(node.strokeStyleId)) {
     const strokeBindings = (boundVars.strokes as LintBoundVariable[] | undefined) || [];
     
     node.strokes.forEach((stroke, index) => {
+      checkGradientStops(stroke, index, 'stroke', 'strokes');
       if (stroke.type === 'SOLID' && stroke.visible !== false) {
         const solidStroke = stroke as LintSolidPaint;
         const hasBinding = strokeBindings[index] && strokeBindings[index].id;
         if (!hasBinding && !isTransparentColor(solidStroke.color)) {
           rawValues.push({
             category: 'stroke',
+            field: 'strokes',
+            index,
             property: 'stroke color',
-            value: formatColor(solidStroke.color)
+            value: formatColor(solidStroke.color),
+            tokenSuggestion: suggest('color', solidStroke.color)
           });
         }
       }
@@ -1201,12 +1427,98 @@ function checkNodeForRawValues(node: LintNode): NodeRawValueResult {
   // Check corner radius
   if (typeof node.cornerRadius === 'number' && node.cornerRadius > 0) {
     const binding = boundVars.cornerRadius as LintBoundVariable | undefined;
-    const hasBinding = binding && binding.id;
+    // Figma binds radius per corner, so four corner bindings count too
+    const cornersBound = CORNER_RADII
+      .every(([corner]) => (boundVars[corner] as LintBoundVariable | undefined)?.id);
+    const hasBinding = (binding && binding.id) || cornersBound;
     if (!hasBinding) {
       rawValues.push({
         category: 'cornerRadius',
+        field: 'cornerRadius',
         property: 'corner radius',
-        value: `${node.cornerRadius}px`
+        value: `${node.cornerRadius}px`,
+        tokenSuggestion: suggest('radius', node.cornerRadius)
+      });
+    }
+  } else if (node.cornerRadius === 'MIXED') {
+    // Corners differ, so each one needs its own binding
+    for (const [corner, label] of CORNER_RADII) {
+      const value = node[corner];
+      const binding = boundVars[corner] as LintBoundVariable | undefined;
+      if (typeof value === 'number' && value > 0 && !binding?.id) {
+        rawValues.push({
+          category: 'cornerRadius',
+          field: corner,
+          property: label,
+          value: `${value}px`,
+          tokenSuggestion: suggest('radius', value)
+        });
+      }
+    }
+  }
+
+  // Check stroke weight (only when a stroke is visible)
+  if (node.strokes?.some(stroke => stroke.visible !== false)) {
+    const sideWeights = STROKE_SIDES.map(([side]) => node[side]);
+    const sidesDiffer = sideWeights.every(weight => typeof weight === 'number') && new Set(sideWeights).size > 1;
+
+    if (sidesDiffer) {
+      for (const [side, label] of STROKE_SIDES) {
+        const value = node[side];
+        const binding = boundVars[side] as LintBoundVariable | undefined;
+        if (typeof value === 'number' && value > 0 && !binding?.id) {
+          rawValues.push({
+            category: 'strokeWeight',
+            field: side,
+            property: label,
+            value: `${value}px`,
+            tokenSuggestion: suggest('strokeWeight', value)
+          });
+        }
+      }
+    } else if (typeof node.strokeWeight === 'number' && node.strokeWeight > 0) {
+      const binding = boundVars.strokeWeight as LintBoundVariable | undefined;
+      // Four side bindings count too
+      const sidesBound = STROKE_SIDES.every(([side]) => (boundVars[side] as LintBoundVariable | undefined)?.id);
+      if (!binding?.id && !sidesBound) {
+        rawValues.push({
+          category: 'strokeWeight',
+          field: 'strokeWeight',
+          property: 'stroke weight',
+          value: `${node.strokeWeight}px`,
+          tokenSuggestion: suggest('strokeWeight', node.strokeWeight)
+        });
+      }
+    }
+  }
+
+  // Check layer opacity. Figma opacity variables hold percentages, so the
+  // suggestion compares against 0–100.
+  if (typeof node.opacity === 'number' && node.opacity < 1) {
+    const binding = boundVars.opacity as LintBoundVariable | undefined;
+    if (!binding?.id) {
+      const percent = Math.round(node.opacity * 100);
+      rawValues.push({
+        category: 'opacity',
+        field: 'opacity',
+        property: 'opacity',
+        value: `${percent}%`,
+        tokenSuggestion: suggest('opacity', percent)
+      });
+    }
+  }
+
+  // Check min/max width and height
+  for (const [field, label] of SIZING_CONSTRAINTS) {
+    const value = node[field];
+    const binding = boundVars[field] as LintBoundVariable | undefined;
+    if (typeof value === 'number' && value > 0 && !binding?.id) {
+      rawValues.push({
+        category: 'sizing',
+        field,
+        property: label,
+        value: `${value}px`,
+        tokenSuggestion: suggest('sizing', value)
       });
     }
   }
@@ -1223,8 +1535,10 @@ function checkNodeForRawValues(node: LintNode): NodeRawValueResult {
         if (!hasBinding) {
           rawValues.push({
             category: 'spacing',
+            field: prop,
             property: prop,
-            value: `${value}px`
+            value: `${value}px`,
+            tokenSuggestion: suggest('spacing', value)
           });
         }
       }
@@ -1237,54 +1551,76 @@ function checkNodeForRawValues(node: LintNode): NodeRawValueResult {
       if (!hasBinding) {
         rawValues.push({
           category: 'spacing',
+          field: 'itemSpacing',
           property: 'gap',
-          value: `${node.itemSpacing}px`
+          value: `${node.itemSpacing}px`,
+          tokenSuggestion: suggest('spacing', node.itemSpacing)
         });
       }
     }
   }
   
-  // Check typography (for text nodes)
+  // Check typography (for text nodes), run by run when the formatting is
+  // mixed. An applied text style covers the typography; its own bindings
+  // are checked with the text styles.
   if (node.type === 'TEXT') {
-    const typographyProps = ['fontSize', 'lineHeight', 'letterSpacing'] as const;
-    
-    for (const prop of typographyProps) {
-      const binding = boundVars[prop] as LintBoundVariable | undefined;
-      const hasBinding = binding && binding.id;
-      if (!hasBinding) {
-        let value: string;
-        if (prop === 'fontSize') {
-          value = typeof node.fontSize === 'number' ? `${node.fontSize}px` : 'mixed';
-        } else if (prop === 'lineHeight') {
-          const lh = node.lineHeight;
-          if (lh && typeof lh === 'object' && 'value' in lh) {
-            value = lh.unit === 'PERCENT' ? `${lh.value}%` : `${lh.value}px`;
-          } else {
-            value = 'auto';
-          }
-        } else {
-          const ls = node.letterSpacing;
-          if (ls && typeof ls === 'object' && 'value' in ls) {
-            value = ls.unit === 'PERCENT' ? `${ls.value}%` : `${ls.value}px`;
+    for (const run of textRuns(node)) {
+      if (run.styled) continue;
+      const source = run.source;
+      for (const prop of TEXT_NODE_TYPOGRAPHY) {
+        const binding = run.boundVariables[prop] as LintBoundVariable | undefined;
+        const hasBinding = binding && binding.id;
+        // Skip properties the adapter didn't report
+        if (!hasBinding && source[prop] !== undefined) {
+          let value: string;
+          // Value to match against variables (percentages have no variable
+          // equivalent, so they get no suggestion)
+          let comparable: number | string | undefined;
+          if (prop === 'fontFamily') {
+            value = source.fontFamily !== 'MIXED' ? String(source.fontFamily) : 'mixed';
+            comparable = source.fontFamily !== 'MIXED' ? source.fontFamily : undefined;
+          } else if (prop === 'fontWeight') {
+            value = typeof source.fontWeight === 'number' ? String(source.fontWeight) : 'mixed';
+            comparable = typeof source.fontWeight === 'number' ? source.fontWeight : undefined;
+          } else if (prop === 'fontSize') {
+            value = typeof source.fontSize === 'number' ? `${source.fontSize}px` : 'mixed';
+            comparable = typeof source.fontSize === 'number' ? source.fontSize : undefined;
+          } else if (prop === 'lineHeight') {
+            const lh = source.lineHeight;
+            if (lh && typeof lh === 'object' && 'value' in lh) {
+              value = lh.unit === 'PERCENT' ? `${lh.value}%` : `${lh.value}px`;
+              comparable = lh.unit === 'PIXELS' ? lh.value : undefined;
+            } else {
+              value = 'auto';
+            }
           } else {
-            value = '0';
+            const ls = source.letterSpacing;
+            if (ls && typeof ls === 'object' && 'value' in ls) {
+              value = ls.unit === 'PERCENT' ? `${ls.value}%` : `${ls.value}px`;
+              comparable = ls.unit === 'PIXELS' ? ls.value : undefined;
+            } else {
+              value = '0';
+            }
           }
-        }
         
-        // Skip auto/0 values as they're often intentional defaults
-        if (value !== 'auto' && value !== '0' && value !== '0px' && value !== '0%') {
-          rawValues.push({
-            category: 'typography',
-            property: prop,
-            value
-          });
+          // Skip auto/0 values as they're often intentional defaults
+          if (value !== 'auto' && value !== '0' && value !== '0px' && value !== '0%') {
+            rawValues.push({
+              category: 'typography',
+              field: prop,
+              range: run.range,
+              property: run.range ? `${prop} (${run.label})` : prop,
+              value,
+              tokenSuggestion: comparable !== undefined ? suggest(prop, comparable) : undefined
+            });
+          }
         }
       }
     }
   }
   
   // Check effects (shadows, blurs)
-  if (node.effects && Array.isArray(node.effects)) {
+  if (node.effects && Array.isArray(node.effects) && !hasStyle(node.effectStyleId)) {
     const effectBindings = (boundVars.effects as LintBoundVariable[] | undefined) || [];
     
     node.effects.forEach((effect, index) => {
@@ -1297,6 +1633,8 @@ function checkNodeForRawValues(node: LintNode): NodeRawValueResult {
           }
           rawValues.push({
             category: 'effect',
+            field: 'effects',
+            index,
             property: effect.type.toLowerCase(),
             value: effectDesc
           });
@@ -1313,6 +1651,79 @@ function checkNodeForRawValues(node: LintNode): NodeRawValueResult {
   };
 }
 
+/**
+ * Check a node's bindings against the semantic roles of the bound variables.
+ * The first role whose pattern matches a variable's name applies; variables
+ * matching no role are not checked.
+ *
+ * @param node - Node to inspect (children are not visited)
+ * @param variableNames - Variable names keyed by ID
+ * @param roles - Roles with their compiled name patterns
+ */
+function checkNodeForRoleMismatches(
+  node: LintNode,
+  variableNames: Map<string, string>,
+  roles: Array<{ role: SemanticRole; pattern: RegExp }>
+): RoleMismatch[] {
+  const mismatches: RoleMismatch[] = [];
+
+  for (const [property, binding] of Object.entries(node.boundVariables || {})) {
+    const list: Array<LintBoundVariable | undefined> = Array.isArray(binding) ? binding : [binding];
+    for (const b of list) {
+      const variableName = b?.id ? variableNames.get(b.id) : undefined;
+      if (!variableName) continue;
+
+      const match = roles.find(r => r.pattern.test(variableName));
+      if (!match) continue;
+      const { role } = match;
+      if (role.properties.includes(property) && (!role.nodeTypes || role.nodeTypes.includes(node.type))) continue;
+
+      mismatches.push({
+        nodeId: node.id,
+        nodeName: node.name,
+        nodeType: node.type,
+        property,
+        variableName,
+        role,
+      });
+    }
+  }
+
+  return mismatches;
+}
+
+/**
+ * Check that a text node's typography comes from the library: a local text
+ * style, or typography variables when no style is applied. Mixed-format
+ * text is checked run by run; nodes with several styles but no styled
+ * segments (older adapters) are not checked.
+ *
+ * @param node - Node to inspect (children are not visited)
+ * @param libraryStyleIds - IDs of the audited library's text styles; the
+ *   style origin is not checked when omitted
+ */
+function checkNodeForTextStyle(node: LintNode, libraryStyleIds?: Set<string>): TextStyleIssue[] {
+  const issues: TextStyleIssue[] = [];
+  if (node.type !== 'TEXT') return issues;
+
+  for (const run of textRuns(node)) {
+    if (run.styled) {
+      if (run.textStyleId && libraryStyleIds && !libraryStyleIds.has(run.textStyleId)) {
+        issues.push({ nodeId: node.id, nodeName: node.name, kind: 'foreign-style', textStyleId: run.textStyleId, label: run.label });
+      }
+      continue;
+    }
+    if (!run.range && node.textStyleId === 'MIXED') continue;
+
+    const hasTypographyBinding = TEXT_NODE_TYPOGRAPHY.some(prop => (run.boundVariables[prop] as LintBoundVariable | undefined)?.id);
+    if (!hasTypographyBinding) {
+      issues.push({ nodeId: node.id, nodeName: node.name, kind: 'unstyled', label: run.label });
+    }
+  }
+
+  return issues;
+}
+
 /**
  * Recursively collect all nodes in a component
  */
@@ -1332,28 +1743,53 @@ function collectAllNodes(node: LintNode): LintNode[] {
  * Validate that a component uses theme variables for all visual properties.
  *
  * @param componentNode - The component or component set to validate
+ * @param tokens - Resolved variables used to suggest a replacement for each
+ *   raw value, and to name bound variables for the semantic role check
+ * @param roles - Semantic roles bound variables must match (needs `tokens`)
+ * @param textStyles - The library's text styles; applied styles not among
+ *   them are reported
  * @returns Validation result with raw value locations
  */
-export function validateComponentBindings(componentNode: LintNode): ComponentBindingValidationResult {
+export function validateComponentBindings(
+  componentNode: LintNode,
+  tokens?: ResolvedVariable[],
+  roles: SemanticRole[] = [],
+  textStyles?: LintTextStyle[]
+): ComponentBindingValidationResult {
   const allNodes = collectAllNodes(componentNode);
   const nodesWithRawValues: NodeRawValueResult[] = [];
+  const roleMismatches: RoleMismatch[] = [];
+  const textStyleIssues: TextStyleIssue[] = [];
+  const libraryStyleIds = textStyles
+    ? new Set(textStyles.filter(style => !style.remote).map(style => style.id))
+    : undefined;
+  const variableNames = new Map((tokens ?? []).map(t => [t.id, t.name]));
+  const compiledRoles = tokens ? roles.map(role => ({ role, pattern: compileNamePattern(role.tokens) })) : [];
   const rawValueCounts: Record<ComponentPropertyCategory, number> = {
     fill: 0,
+    image: 0,
     stroke: 0,
+    strokeWeight: 0,
     effect: 0,
     spacing: 0,
+    sizing: 0,
     cornerRadius: 0,
+    opacity: 0,
     typography: 0
   };
   
   for (const node of allNodes) {
-    const result = checkNodeForRawValues(node);
+    const result = checkNodeForRawValues(node, tokens);
     if (result.rawValues.length > 0) {
       nodesWithRawValues.push(result);
       for (const rv of result.rawValues) {
         rawValueCounts[rv.category]++;
       }
     }
+    if (compiledRoles.length > 0) {
+      roleMismatches.push(...checkNodeForRoleMismatches(node, variableNames, compiledRoles));
+    }
+    textStyleIssues.push(...checkNodeForTextStyle(node, libraryStyleIds));
   }
   
   return {
@@ -1362,20 +1798,274 @@ export function validateComponentBindings(componentNode: LintNode): ComponentBin
     totalNodes: allNodes.length,
     nodesWithRawValues,
     rawValueCounts,
-    isFullyBound: nodesWithRawValues.length === 0
+    isFullyBound: nodesWithRawValues.length === 0,
+    roleMismatches,
+    textStyleIssues
   };
 }
 
+/**
+ * Node fields that can be bound automatically when a variable's value
+ * matches the hard-coded value exactly
+ */
+export type BindableField =
+  | 'fills'
+  | 'strokes'
+  | 'paddingTop'
+  | 'paddingRight'
+  | 'paddingBottom'
+  | 'paddingLeft'
+  | 'itemSpacing'
+  | 'cornerRadius'
+  | 'fontSize';
+
+const BINDABLE_FIELDS: readonly string[] = [
+  'fills', 'strokes', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft', 'itemSpacing', 'cornerRadius', 'fontSize'
+];
+
+/**
+ * Node types with per-corner radius fields. Radius is bound per corner, so
+ * ellipses, polygons, stars and vectors (one radius, no corners) can't be fixed.
+ */
+const PER_CORNER_NODE_TYPES: readonly string[] = ['FRAME', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE', 'RECTANGLE'];
+
+/**
+ * A planned binding of one hard-coded value to an exactly matching variable
+ */
+export interface BindingFix {
+  componentId: string;
+  componentName: string;
+  nodeId: string;
+  nodeName: string;
+  field: BindableField;
+  /** Paint index for `fills` / `strokes` */
+  index?: number;
+  /** Display label and current value, e.g. `fill color` / `#1a1a1a` */
+  property: string;
+  value: string;
+  variableId: string;
+  variableName: string;
+}
+
+/**
+ * Plan the bindings that can be applied automatically for a component:
+ * every bindable raw value whose suggested variable matches exactly.
+ *
+ * @param componentNode - The component or component set to fix
+ * @param tokens - Resolved variables (see `resolveDefaultModeValues`)
+ */
+export function planExactBindings(componentNode: LintNode, tokens: ResolvedVariable[]): BindingFix[] {
+  const result = validateComponentBindings(componentNode, tokens);
+  const fixes: BindingFix[] = [];
+
+  for (const node of result.nodesWithRawValues) {
+    for (const rv of node.rawValues) {
+      // Runs of mixed-format text and gradient stops can't be bound as a whole
+      if (!rv.tokenSuggestion?.exact || !BINDABLE_FIELDS.includes(rv.field) || rv.range || rv.stop !== undefined) continue;
+      if (rv.field === 'cornerRadius' && !PER_CORNER_NODE_TYPES.includes(node.nodeType)) continue;
+      fixes.push({
+        componentId: result.componentId,
+        componentName: result.componentName,
+        nodeId: node.nodeId,
+        nodeName: node.nodeName,
+        field: rv.field as BindableField,
+        index: rv.index,
+        property: rv.property,
+        value: rv.value,
+        variableId: rv.tokenSuggestion.variableId,
+        variableName: rv.tokenSuggestion.variableName
+      });
+    }
+  }
+
+  return fixes;
+}
+
+/**
+ * Rule and report wording for each raw-value category
+ */
+const CATEGORY_RULES: Record<ComponentPropertyCategory, {
+  ruleId: string;
+  singular: string;
+  plural: string;
+  hint: string;
+  /** Replaces the default bind-to-variables advice */
+  fix?: string;
+}> = {
+  fill: { ruleId: RULE_IDS.rawFill, singular: 'fill color', plural: 'fill colors', hint: 'should use color/* variables' },
+  image: {
+    ruleId: RULE_IDS.imageFill,
+    singular: 'image fill',
+    plural: 'image fills',
+    hint: 'images belong in content, not in the component',
+    fix: 'Replace the image with an instance-swap slot or a placeholder fill bound to a variable.'
+  },
+  stroke: { ruleId: RULE_IDS.rawStroke, singular: 'stroke color', plural: 'stroke colors', hint: 'should use color/* variables' },
+  strokeWeight: { ruleId: RULE_IDS.rawStrokeWeight, singular: 'stroke weight', plural: 'stroke weights', hint: 'should use border-width/* variables' },
+  spacing: { ruleId: RULE_IDS.rawSpacing, singular: 'spacing value', plural: 'spacing values', hint: 'should use space/* variables for padding/gap' },
+  sizing: { ruleId: RULE_IDS.rawSizing, singular: 'size constraint', plural: 'size constraints', hint: 'should use size/* variables for min/max width and height' },
+  cornerRadius: { ruleId: RULE_IDS.rawRadius, singular: 'corner radius', plural: 'corner radii', hint: 'should use radius/* variables' },
+  opacity: { ruleId: RULE_IDS.rawOpacity, singular: 'opacity', plural: 'opacities', hint: 'should use opacity/* variables' },
+  typography: { ruleId: RULE_IDS.rawTypography, singular: 'typography value', plural: 'typography values', hint: 'should use font-* variables' },
+  effect: { ruleId: RULE_IDS.rawEffect, singular: 'effect', plural: 'effects', hint: 'should use effect/* variables' },
+};
+
+/** Order in which categories are reported */
+const CATEGORY_ORDER: ComponentPropertyCategory[] = [
+  'fill', 'image', 'stroke', 'strokeWeight', 'spacing', 'sizing', 'cornerRadius', 'typography', 'effect', 'opacity'
+];
+
+/** Maximum raw values listed per check before summarising the rest */
+const MAX_LISTED_RAW_VALUES = 10;
+
+/**
+ * Build the audit checks for one validated component: one check per
+ * raw-value rule that fails, or a single pass check when none do.
+ * Rules configured as `off` are ignored when deciding pass/fail.
+ */
+function buildComponentChecks(
+  result: ComponentBindingValidationResult,
+  pageName: string,
+  severities: RuleSeverities
+): AuditCheck[] {
+  const checks: AuditCheck[] = [];
+
+  for (const category of CATEGORY_ORDER) {
+    const count = result.rawValueCounts[category];
+    const rule = CATEGORY_RULES[category];
+    const severity = getRuleSeverity(rule.ruleId, severities);
+    if (count === 0 || severity === 'off') continue;
+
+    const rawValues: AuditRawValue[] = result.nodesWithRawValues.flatMap(node =>
+      node.rawValues
+        .filter(rv => rv.category === category)
+        .map(rv => ({
+          nodeId: node.nodeId,
+          nodeName: node.nodeName,
+          property: rv.property,
+          value: rv.value,
+          tokenSuggestion: rv.tokenSuggestion
+        }))
+    );
+    const locations = rawValues.map(rv =>
+      `  • ${rv.nodeName}: ${rv.property} ${rv.value}` +
+      (rv.tokenSuggestion ? ` → ${formatTokenSuggestion(rv.tokenSuggestion)}` : '')
+    );
+    const listed = listLines(locations, MAX_LISTED_RAW_VALUES);
+
+    checks.push({
+      ruleId: rule.ruleId,
+      check: `${result.componentName} — ${rule.plural}`,
+      status: severity === 'warning' ? 'warning' : 'fail',
+      suggestion: `${count} hard-coded ${count > 1 ? rule.plural : rule.singular} (${rule.hint}):\n${listed}\n\nTo fix: ${rule.fix ?? 'Select this component in Figma, then bind the listed properties to their corresponding variables in your Theme collection.'}`,
+      pageName,
+      nodeId: result.componentId,
+      rawValues
+    });
+  }
+
+  const roleSeverity = getRuleSeverity(RULE_IDS.semanticRole, severities);
+  if (result.roleMismatches.length > 0 && roleSeverity !== 'off') {
+    const rawValues: AuditRawValue[] = result.roleMismatches.map(m => ({
+      nodeId: m.nodeId,
+      nodeName: m.nodeName,
+      property: m.property,
+      value: m.variableName
+    }));
+    const locations = result.roleMismatches.map(m =>
+      `  • ${m.nodeName} (${m.nodeType}): ${m.property} → ${m.variableName} ` +
+      `(${m.role.tokens} belongs on ${m.role.properties.join('/')}${m.role.nodeTypes ? ` of ${m.role.nodeTypes.join(', ')}` : ''})`
+    );
+    const listed = listLines(locations, MAX_LISTED_RAW_VALUES);
+
+    checks.push({
+      ruleId: RULE_IDS.semanticRole,
+      check: `${result.componentName} — variables used outside their role`,
+      status: roleSeverity === 'warning' ? 'warning' : 'fail',
+      suggestion: `${result.roleMismatches.length} binding${result.roleMismatches.length !== 1 ? 's use' : ' uses'} a variable meant for a different property:\n${listed}\n\nTo fix: Bind each property to a variable from the matching role (e.g. colors/text/* on text fills).`,
+      pageName,
+      nodeId: result.componentId,
+      rawValues
+    });
+  }
+
+  const textStyleRules = [
+    {
+      kind: 'unstyled',
+      ruleId: RULE_IDS.textStyle,
+      label: 'text without a text style',
+      describe: (count: number) => `${count} text layer${count !== 1 ? 's have' : ' has'} neither a text style nor typography variables`,
+      fix: 'Apply a text style from the library, or bind the typography to font-* variables.',
+    },
+    {
+      kind: 'foreign-style',
+      ruleId: RULE_IDS.foreignTextStyle,
+      label: 'text styles from another library',
+      describe: (count: number) => `${count} text layer${count !== 1 ? 's use' : ' uses'} a text style that isn't defined in this library`,
+      fix: 'Replace each style with the matching text style from this library.',
+    },
+  ] as const;
+  for (const rule of textStyleRules) {
+    const issues = result.textStyleIssues.filter(issue => issue.kind === rule.kind);
+    const severity = getRuleSeverity(rule.ruleId, severities);
+    if (issues.length === 0 || severity === 'off') continue;
+
+    const rawValues: AuditRawValue[] = issues.map(issue => ({
+      nodeId: issue.nodeId,
+      nodeName: issue.nodeName,
+      property: issue.label ? `text style (${issue.label})` : 'text style',
+      value: issue.textStyleId ?? 'none'
+    }));
+    const locations = issues.map(issue =>
+      `  • ${issue.nodeName}${issue.label ? `, ${issue.label}` : ''}${issue.textStyleId ? ` (${issue.textStyleId})` : ''}`
+    );
+    const listed = listLines(locations, MAX_LISTED_RAW_VALUES);
+
+    checks.push({
+      ruleId: rule.ruleId,
+      check: `${result.componentName} — ${rule.label}`,
+      status: severity === 'warning' ? 'warning' : 'fail',
+      suggestion: `${rule.describe(issues.length)}:\n${listed}\n\nTo fix: ${rule.fix}`,
+      pageName,
+      nodeId: result.componentId,
+      rawValues
+    });
+  }
+
+  if (checks.length === 0) {
+    checks.push({
+      ruleId: RULE_IDS.componentBindings,
+      check: `${result.componentName}`,
+      status: 'pass',
+      suggestion: `Component uses theme variables for all visual properties`,
+      pageName,
+      nodeId: result.componentId
+    });
+  }
+
+  return checks;
+}
+
 /**
  * Validate all components for variable bindings.
  *
  * @param components - Components discovered by the adapter, annotated with page name
  * @param onProgress - Optional callback for progress updates
+ * @param severities - Optional rule severity overrides from the project config
+ * @param tokens - Resolved variables (see `resolveDefaultModeValues`) used to
+ *   suggest the closest variable for each hard-coded value
+ * @param roles - Semantic roles bound variables must match
+ * @param textStyles - The library's text styles, to check that component
+ *   text uses them
  * @returns Audit checks for component variable usage
  */
 export function validateAllComponentBindings(
   components: LintComponent[],
-  onProgress?: (message: string) => void
+  onProgress?: (message: string) => void,
+  severities: RuleSeverities = {},
+  tokens?: ResolvedVariable[],
+  roles: SemanticRole[] = DEFAULT_SEMANTIC_ROLES,
+  textStyles?: LintTextStyle[]
 ): {
   results: ComponentBindingValidationResult[];
   auditChecks: AuditCheck[];
@@ -1391,17 +2081,10 @@ export function validateAllComponentBindings(
       return { results, auditChecks };
     }
 
-    // Validate each component
-    const componentsWithIssues: Array<{
-      name: string;
-      pageName: string;
-      counts: Record<ComponentPropertyCategory, number>;
-      totalRawValues: number;
-    }> = [];
-
     const totalComponents = components.length;
     onProgress?.(`${totalComponents} component${totalComponents !== 1 ? 's are' : ' is'} being scanned, please wait patiently...`);
 
+    // Validate each component and create its audit checks with page information
     for (let i = 0; i < totalComponents; i++) {
       const component = components[i];
 
@@ -1410,78 +2093,18 @@ export function validateAllComponentBindings(
         onProgress?.(`Scanning ${totalComponents} component${totalComponents !== 1 ? 's' : ''}: ${i + 1}/${totalComponents} validated...`);
       }
 
-      const result = validateComponentBindings(component.node);
+      const result = validateComponentBindings(component.node, tokens, roles, textStyles);
       results.push(result);
-
-      if (!result.isFullyBound) {
-        const totalRawValues = Object.values(result.rawValueCounts).reduce((a, b) => a + b, 0);
-        componentsWithIssues.push({
-          name: result.componentName,
-          pageName: component.pageName,
-          counts: result.rawValueCounts,
-          totalRawValues
-        });
-      }
+      auditChecks.push(...buildComponentChecks(result, component.pageName, severities));
     }
 
     // Final progress update
     onProgress?.(`Completed scanning ${totalComponents} component${totalComponents !== 1 ? 's' : ''}!`);
 
-    // Generate audit checks - one per component (pass/fail only)
-    const compliantComponents = results.filter(r => r.isFullyBound).length;
-    
-    // Create one audit check per component with page information
-    for (const component of components) {
-      const result = results.find(r => r.componentName === component.node.name);
-      if (!result) continue;
-
-      if (result.isFullyBound) {
-        // Component passes - fully bound to variables
-        auditChecks.push({
-          check: `${result.componentName}`,
-          status: 'pass',
-          suggestion: `Component uses theme variables for all visual properties`,
-          pageName: component.pageName
-        });
-      } else {
-        // Component fails - has hard-coded values
-        const comp = componentsWithIssues.find(c => c.name === result.componentName);
-        if (comp) {
-          const issues: string[] = [];
-
-          if (comp.counts.fill > 0) {
-            issues.push(`- ${comp.counts.fill} fill color${comp.counts.fill > 1 ? 's' : ''} (should use color/* variables)`);
-          }
-          if (comp.counts.stroke > 0) {
-            issues.push(`- ${comp.counts.stroke} stroke color${comp.counts.stroke > 1 ? 's' : ''} (should use color/* variables)`);
-          }
-          if (comp.counts.spacing > 0) {
-            issues.push(`- ${comp.counts.spacing} spacing value${comp.counts.spacing > 1 ? 's' : ''} (should use space/* variables for padding/gap)`);
-          }
-          if (comp.counts.cornerRadius > 0) {
-            issues.push(`- ${comp.counts.cornerRadius} corner radi${comp.counts.cornerRadius > 1 ? 'i' : 'us'} (should use radius/* variables)`);
-          }
-          if (comp.counts.typography > 0) {
-            issues.push(`- ${comp.counts.typography} typography value${comp.counts.typography > 1 ? 's' : ''} (should use font-* variables)`);
-          }
-          if (comp.counts.effect > 0) {
-            issues.push(`- ${comp.counts.effect} effect${comp.counts.effect > 1 ? 's' : ''} (should use effect/* variables)`);
-          }
-
-          auditChecks.push({
-            check: `${result.componentName}`,
-            status: 'fail',
-            suggestion: `${comp.totalRawValues} hard-coded value${comp.totalRawValues > 1 ? 's' : ''}:\n${issues.join('\n')}\n\nTo fix: Select this component in Figma, then bind the listed properties to their corresponding variables in your Theme collection.`,
-            pageName: component.pageName
-          });
-        }
-      }
-    }
-
     console.log('🧩 [COMPONENT BINDING] Validation complete:', {
       total: totalComponents,
-      compliant: compliantComponents,
-      withIssues: componentsWithIssues.length
+      compliant: results.filter(r => r.isFullyBound).length,
+      withIssues: results.filter(r => !r.isFullyBound).length
     });
     
     return { results, auditChecks };
@@ -1491,6 +2114,7 @@ export function validateAllComponentBindings(
     return {
       results,
       auditChecks: [{
+        ruleId: RULE_IDS.componentBindings,
         check: 'Component variable bindings',
         status: 'warning',
         suggestion: `Could not validate component bindings: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -1498,187 +2122,3 @@ export function validateAllComponentBindings(
     };
   }
 }
-
-/**
- * Validate components on the current page for variable bindings
- * 
- * @returns Audit checks for component variable usage on current page
- */
-export async function validateCurrentPageComponentBindings(): Promise<{
-  results: ComponentBindingValidationResult[];
-  auditChecks: AuditCheck[];
-}> {
-  const auditChecks: AuditCheck[] = [];
-  const results: ComponentBindingValidationResult[] = [];
-  
-  try {
-    console.log('🧩 [COMPONENT BINDING - CURRENT PAGE] Starting validation...');
-
-    // Find all components and component sets on the CURRENT page only
-    const components: Array<{
-      node: ComponentNode | ComponentSetNode;
-      pageName: string;
-    }> = [];
-
-    let nodesProcessed = 0;
-    const currentPage = figma.currentPage;
-    const pageName = currentPage.name;
-
-    // Async recursive function with periodic yields
-    async function findComponents(node: SceneNode): Promise<void> {
-      if (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET') {
-        components.push({ node, pageName });
-      }
-
-      if ('children' in node) {
-        for (const child of node.children) {
-          nodesProcessed++;
-
-          // Yield every 50 nodes to keep UI responsive on large pages
-          if (nodesProcessed % 50 === 0) {
-            await new Promise(resolve => setTimeout(resolve, 0));
-          }
-
-          await findComponents(child);
-        }
-      }
-    }
-
-    // Scan current page only (no need to load all pages)
-    console.log('🧩 [COMPONENT BINDING - CURRENT PAGE] Scanning page:', pageName);
-    figma.ui.postMessage({
-      type: 'audit-progress',
-      data: { message: `Scanning current page: "${pageName}"` }
-    });
-
-    for (const child of currentPage.children) {
-      await findComponents(child);
-    }
-
-    console.log('🧩 [COMPONENT BINDING - CURRENT PAGE] Found', components.length, 'components on page:', pageName);
-
-    if (components.length === 0) {
-      return { results, auditChecks };
-    }
-
-    // Validate each component
-    const componentsWithIssues: Array<{
-      name: string;
-      pageName: string;
-      counts: Record<ComponentPropertyCategory, number>;
-      totalRawValues: number;
-    }> = [];
-
-    const totalComponents = components.length;
-    figma.ui.postMessage({
-      type: 'audit-progress',
-      data: { message: `${totalComponents} component${totalComponents !== 1 ? 's are' : ' is'} being scanned, please wait patiently...` }
-    });
-
-    for (let i = 0; i < totalComponents; i++) {
-      const component = components[i];
-
-      // Update progress message every 10 components to avoid too many UI updates
-      if (i % 10 === 0 || i === totalComponents - 1) {
-        figma.ui.postMessage({
-          type: 'audit-progress',
-          data: { message: `Scanning ${totalComponents} component${totalComponents !== 1 ? 's' : ''}: ${i + 1}/${totalComponents} validated...` }
-        });
-      }
-
-      // Yield to event loop after EVERY component to keep UI responsive
-      await new Promise(resolve => setTimeout(resolve, 0));
-
-      const result = validateComponentBindings(component.node);
-      results.push(result);
-
-      if (!result.isFullyBound) {
-        const totalRawValues = Object.values(result.rawValueCounts).reduce((a, b) => a + b, 0);
-        componentsWithIssues.push({
-          name: result.componentName,
-          pageName: component.pageName,
-          counts: result.rawValueCounts,
-          totalRawValues
-        });
-      }
-    }
-
-    // Final progress update
-    figma.ui.postMessage({
-      type: 'audit-progress',
-      data: { message: `Completed scanning ${totalComponents} component${totalComponents !== 1 ? 's' : ''}!` }
-    });
-
-    // Generate audit checks - one per component (pass/fail only)
-    const totalValidated = results.length;
-    const compliantComponents = results.filter(r => r.isFullyBound).length;
-    
-    // Create one audit check per component with page information
-    for (const component of components) {
-      const result = results.find(r => r.componentName === component.node.name);
-      if (!result) continue;
-
-      if (result.isFullyBound) {
-        // Component passes - fully bound to variables
-        auditChecks.push({
-          check: `${result.componentName}`,
-          status: 'pass',
-          suggestion: `Component uses theme variables for all visual properties`,
-          pageName: component.pageName
-        });
-      } else {
-        // Component fails - has hard-coded values
-        const comp = componentsWithIssues.find(c => c.name === result.componentName);
-        if (comp) {
-          const issues: string[] = [];
-
-          if (comp.counts.fill > 0) {
-            issues.push(`- ${comp.counts.fill} fill color${comp.counts.fill > 1 ? 's' : ''} (should use color/* variables)`);
-          }
-          if (comp.counts.stroke > 0) {
-            issues.push(`- ${comp.counts.stroke} stroke color${comp.counts.stroke > 1 ? 's' : ''} (should use color/* variables)`);
-          }
-          if (comp.counts.spacing > 0) {
-            issues.push(`- ${comp.counts.spacing} spacing value${comp.counts.spacing > 1 ? 's' : ''} (should use space/* variables for padding/gap)`);
-          }
-          if (comp.counts.cornerRadius > 0) {
-            issues.push(`- ${comp.counts.cornerRadius} corner radi${comp.counts.cornerRadius > 1 ? 'i' : 'us'} (should use radius/* variables)`);
-          }
-          if (comp.counts.typography > 0) {
-            issues.push(`- ${comp.counts.typography} typography value${comp.counts.typography > 1 ? 's' : ''} (should use font-* variables)`);
-          }
-          if (comp.counts.effect > 0) {
-            issues.push(`- ${comp.counts.effect} effect${comp.counts.effect > 1 ? 's' : ''} (should use effect/* variables)`);
-          }
-
-          auditChecks.push({
-            check: `${result.componentName}`,
-            status: 'fail',
-            suggestion: `${comp.totalRawValues} hard-coded value${comp.totalRawValues > 1 ? 's' : ''}:\n${issues.join('\n')}\n\nTo fix: Select this component in Figma, then bind the listed properties to their corresponding variables in your Theme collection.`,
-            pageName: component.pageName
-          });
-        }
-      }
-    }
-
-    console.log('🧩 [COMPONENT BINDING - CURRENT PAGE] Validation complete:', {
-      page: pageName,
-      total: totalValidated,
-      compliant: compliantComponents,
-      withIssues: componentsWithIssues.length
-    });
-    
-    return { results, auditChecks };
-    
-  } catch (error) {
-    console.error('❌ [COMPONENT BINDING - CURRENT PAGE] Error validating component bindings:', error);
-    return {
-      results,
-      auditChecks: [{
-        check: 'Component variable bindings (current page)',
-        status: 'warning',
-        suggestion: `Could not validate component bindings: ${error instanceof Error ? error.message : 'Unknown error'}`
-      }]
-    };
-  }
-}
@@ -0,0 +1,800 @@
+/**
+ * Project configuration for ctdsLint.
+ *
+ * A project config (`.ctdslintrc` for the CLI, `figma.clientStorage` for the
+ * plugin) replaces the built-in `DEFAULT_COLLECTION_REQUIREMENTS` so each
+ * brand can describe its own collection names and categories without
+ * forking the validator.
+ *
+ * Config files are plain JSON/YAML, so regular expressions are written as
+ * strings and compiled here. Everything is checked against a small
+ * hand-written schema that reports every problem with its path, e.g.
+ * `collections[1].requiredCategories[0].name: expected a non-empty string`.
+ */
+
+import {
+  DEFAULT_COLLECTION_REQUIREMENTS,
+  CollectionRequirement,
+  CategoryRequirement,
+  SemanticRole,
+  DEFAULT_SEMANTIC_ROLES,
+} from './collection-validator';
+import { RULES, RULE_SEVERITIES, RuleSeverities, RuleSeverity } from './rules';
+import { ContrastPair, ContrastLevel } from './contrast-validator';
+import { AliasOptions, DEFAULT_ALIAS_OPTIONS } from './alias-validator';
+import { TierOptions, TierDefinition, DEFAULT_TIER_OPTIONS } from './tier-validator';
+import { UnusedVariableOptions, DEFAULT_UNUSED_VARIABLE_OPTIONS } from './variable-usage';
+import { NamingOptions, NamingCase, NAMING_CASES, DEFAULT_NAMING_OPTIONS } from './naming-validator';
+import { ScaleRule, DEFAULT_SCALE_RULES } from './scale-validator';
+import { MirrorOptions, LineHeightRange, DEFAULT_MIRROR_OPTIONS } from './mirror-validator';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Resolved configuration consumed by the validators.
+ */
+export interface CtdsLintConfig {
+  /** Expected collection structure (replaces DEFAULT_COLLECTION_REQUIREMENTS) */
+  collections: CollectionRequirement[];
+  /** Severity overrides keyed by rule ID (see `RULES`) */
+  rules: RuleSeverities;
+  /** Colour pairs checked for contrast in every mode */
+  contrast: {
+    pairs: ContrastPair[];
+  };
+  /** Alias graph limits */
+  aliases: AliasOptions;
+  /** Token tier order (lowest first) */
+  tiers: TierOptions;
+  /** Unused variable detection */
+  unused: UnusedVariableOptions;
+  /** Variable naming convention */
+  naming: NamingOptions;
+  /** Value scale rules for numeric categories (replaces DEFAULT_SCALE_RULES) */
+  scales: ScaleRule[];
+  /** Value checks across mirrored typography categories */
+  mirrors: MirrorOptions;
+  /** Properties each kind of variable may be bound to (replaces DEFAULT_SEMANTIC_ROLES) */
+  roles: SemanticRole[];
+}
+
+/**
+ * Serialized form of `CategoryRequirement` as written in a config file.
+ */
+export interface CategoryRequirementConfig {
+  name: string;
+  subCategories?: string[];
+  subCategoryPartialMatch?: boolean;
+  subCategoryPattern?: {
+    /** Regex source, compiled case-insensitively */
+    pattern: string;
+    description: string;
+    examples?: string[];
+  };
+  mirrorCategory?: string;
+}
+
+/**
+ * Serialized form of `CollectionRequirement` as written in a config file.
+ */
+export interface CollectionRequirementConfig {
+  /** Regex source matched case-insensitively against the collection name */
+  namePattern: string;
+  displayName: string;
+  requiredCategories: CategoryRequirementConfig[];
+}
+
+/**
+ * Serialized form of `ContrastPair` as written in a config file.
+ */
+export interface ContrastPairConfig {
+  /** Variable name pattern; `*` matches any characters */
+  foreground: string;
+  background: string;
+  level?: ContrastLevel;
+  largeText?: boolean;
+}
+
+/**
+ * Serialized form of `ScaleRule` as written in a config file.
+ */
+export interface ScaleRuleConfig {
+  /** Regex source matched case-insensitively against the segments above the size name */
+  category: string;
+  grid?: number;
+  ratio?: number;
+  tolerance?: number;
+  ordered?: boolean;
+  noGaps?: boolean;
+}
+
+/**
+ * Serialized config file shape.
+ */
+export interface CtdsLintConfigFile {
+  collections?: CollectionRequirementConfig[];
+  rules?: Record<string, RuleSeverity>;
+  contrast?: {
+    pairs?: ContrastPairConfig[];
+  };
+  aliases?: {
+    maxDepth?: number;
+  };
+  tiers?: {
+    order?: Array<{
+      name: string;
+      /** Regex source matched case-insensitively against collection names */
+      collectionPattern: string;
+    }>;
+    allowSkip?: boolean;
+  };
+  unused?: {
+    /** Regex source; matching collections are public API and always count as used */
+    publicApi?: string;
+  };
+  naming?: {
+    case?: NamingCase;
+    /** Regex character class body, e.g. `a-z0-9-` */
+    allowedCharacters?: string;
+    maxDepth?: number;
+    reservedWords?: string[];
+  };
+  scales?: ScaleRuleConfig[];
+  mirrors?: {
+    lineHeight?: Array<{
+      /** Regex source matched case-insensitively against the size key */
+      sizes: string;
+      min: number;
+      max: number;
+    }>;
+    letterSpacingTrend?: boolean;
+  };
+  roles?: SemanticRole[];
+}
+
+/**
+ * Result of parsing a raw config object.
+ */
+export interface ConfigParseResult {
+  /** The resolved config (defaults are used for anything invalid or omitted) */
+  config: CtdsLintConfig;
+  /** Human-readable schema errors; empty when the config is valid */
+  errors: string[];
+}
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+/**
+ * Configuration used when no project config is found.
+ */
+export const DEFAULT_CONFIG: CtdsLintConfig = {
+  collections: DEFAULT_COLLECTION_REQUIREMENTS,
+  rules: {},
+  contrast: { pairs: [] },
+  aliases: DEFAULT_ALIAS_OPTIONS,
+  tiers: DEFAULT_TIER_OPTIONS,
+  unused: DEFAULT_UNUSED_VARIABLE_OPTIONS,
+  naming: DEFAULT_NAMING_OPTIONS,
+  scales: DEFAULT_SCALE_RULES,
+  mirrors: DEFAULT_MIRROR_OPTIONS,
+  roles: DEFAULT_SEMANTIC_ROLES,
+};
+
+// ============================================================================
+// Schema helpers
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkUnknownKeys(
+  obj: Record<string, unknown>,
+  allowed: readonly string[],
+  path: string,
+  errors: string[]
+): void {
+  for (const key of Object.keys(obj)) {
+    if (!allowed.includes(key)) {
+      errors.push(`${path ? `${path}.` : ''}${key}: unknown property (allowed: ${allowed.join(', ')})`);
+    }
+  }
+}
+
+function readString(obj: Record<string, unknown>, key: string, path: string, errors: string[]): string | undefined {
+  const value = obj[key];
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push(`${path}.${key}: expected a non-empty string`);
+    return undefined;
+  }
+  return value;
+}
+
+function readStringArray(value: unknown, path: string, errors: string[]): string[] | undefined {
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+    errors.push(`${path}: expected an array of strings`);
+    return undefined;
+  }
+  return value as string[];
+}
+
+function readPositiveNumber(obj: Record<string, unknown>, key: string, path: string, errors: string[]): number | undefined {
+  const value = obj[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    errors.push(`${path}.${key}: expected a positive number`);
+    return undefined;
+  }
+  return value;
+}
+
+function readBoolean(obj: Record<string, unknown>, key: string, path: string, errors: string[]): boolean | undefined {
+  const value = obj[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'boolean') {
+    errors.push(`${path}.${key}: expected a boolean`);
+    return undefined;
+  }
+  return value;
+}
+
+function compilePattern(source: string, path: string, errors: string[]): RegExp | undefined {
+  try {
+    return new RegExp(source, 'i');
+  } catch (error) {
+    errors.push(`${path}: invalid regular expression "${source}" (${error instanceof Error ? error.message : 'unknown error'})`);
+    return undefined;
+  }
+}
+
+// ============================================================================
+// Collection requirement parsing
+// ============================================================================
+
+function parseCategory(raw: unknown, path: string, errors: string[]): CategoryRequirement | undefined {
+  if (!isPlainObject(raw)) {
+    errors.push(`${path}: expected an object`);
+    return undefined;
+  }
+  checkUnknownKeys(raw, ['name', 'subCategories', 'subCategoryPartialMatch', 'subCategoryPattern', 'mirrorCategory'], path, errors);
+
+  const errorCount = errors.length;
+  const name = readString(raw, 'name', path, errors);
+  const category: CategoryRequirement = { name: name ?? '' };
+
+  if (raw.subCategories !== undefined) {
+    category.subCategories = readStringArray(raw.subCategories, `${path}.subCategories`, errors);
+  }
+
+  if (raw.subCategoryPartialMatch !== undefined) {
+    if (typeof raw.subCategoryPartialMatch !== 'boolean') {
+      errors.push(`${path}.subCategoryPartialMatch: expected a boolean`);
+    } else {
+      category.subCategoryPartialMatch = raw.subCategoryPartialMatch;
+    }
+  }
+
+  if (raw.subCategoryPattern !== undefined) {
+    const patternPath = `${path}.subCategoryPattern`;
+    const rawPattern = raw.subCategoryPattern;
+    if (!isPlainObject(rawPattern)) {
+      errors.push(`${patternPath}: expected an object with pattern, description and examples`);
+    } else {
+      checkUnknownKeys(rawPattern, ['pattern', 'description', 'examples'], patternPath, errors);
+      const source = readString(rawPattern, 'pattern', patternPath, errors);
+      const description = readString(rawPattern, 'description', patternPath, errors);
+      const examples = rawPattern.examples === undefined
+        ? []
+        : readStringArray(rawPattern.examples, `${patternPath}.examples`, errors);
+      const pattern = source !== undefined ? compilePattern(source, `${patternPath}.pattern`, errors) : undefined;
+      if (pattern && description && examples) {
+        category.subCategoryPattern = { pattern, description, examples };
+      }
+    }
+  }
+
+  if (raw.mirrorCategory !== undefined) {
+    category.mirrorCategory = readString(raw, 'mirrorCategory', path, errors);
+  }
+
+  return errors.length === errorCount ? category : undefined;
+}
+
+function parseCollection(raw: unknown, path: string, errors: string[]): CollectionRequirement | undefined {
+  if (!isPlainObject(raw)) {
+    errors.push(`${path}: expected an object`);
+    return undefined;
+  }
+  checkUnknownKeys(raw, ['namePattern', 'displayName', 'requiredCategories'], path, errors);
+
+  const errorCount = errors.length;
+  const displayName = readString(raw, 'displayName', path, errors);
+  const source = readString(raw, 'namePattern', path, errors);
+  const namePattern = source !== undefined ? compilePattern(source, `${path}.namePattern`, errors) : undefined;
+
+  const requiredCategories: CategoryRequirement[] = [];
+  if (!Array.isArray(raw.requiredCategories)) {
+    errors.push(`${path}.requiredCategories: expected an array`);
+  } else {
+    raw.requiredCategories.forEach((rawCategory, index) => {
+      const category = parseCategory(rawCategory, `${path}.requiredCategories[${index}]`, errors);
+      if (category) requiredCategories.push(category);
+    });
+  }
+
+  if (errors.length !== errorCount || !displayName || !namePattern) return undefined;
+  return { namePattern, displayName, requiredCategories };
+}
+
+/**
+ * Check mirrorCategory references point at a category in the same collection.
+ */
+function checkMirrorReferences(collections: CollectionRequirement[], errors: string[]): void {
+  collections.forEach((collection, collectionIndex) => {
+    const names = new Set(collection.requiredCategories.map(c => c.name.toLowerCase()));
+    collection.requiredCategories.forEach((category, categoryIndex) => {
+      if (category.mirrorCategory && !names.has(category.mirrorCategory.toLowerCase())) {
+        errors.push(
+          `collections[${collectionIndex}].requiredCategories[${categoryIndex}].mirrorCategory: ` +
+          `"${category.mirrorCategory}" is not a required category of "${collection.displayName}"`
+        );
+      }
+    });
+  });
+}
+
+// ============================================================================
+// Rule severity parsing
+// ============================================================================
+
+function parseRules(raw: unknown, errors: string[]): RuleSeverities {
+  const rules: RuleSeverities = {};
+  if (!isPlainObject(raw)) {
+    errors.push('rules: expected an object mapping rule IDs to off | warning | error');
+    return rules;
+  }
+
+  for (const [ruleId, severity] of Object.entries(raw)) {
+    if (!RULES[ruleId]) {
+      errors.push(`rules.${ruleId}: unknown rule ID`);
+      continue;
+    }
+    if (typeof severity !== 'string' || !RULE_SEVERITIES.includes(severity as RuleSeverity)) {
+      errors.push(`rules.${ruleId}: expected one of ${RULE_SEVERITIES.join(', ')}`);
+      continue;
+    }
+    rules[ruleId] = severity as RuleSeverity;
+  }
+
+  return rules;
+}
+
+// ============================================================================
+// Contrast pair parsing
+// ============================================================================
+
+const CONTRAST_LEVELS: readonly ContrastLevel[] = ['AA', 'AAA'];
+
+function parseContrastPair(raw: unknown, path: string, errors: string[]): ContrastPair | undefined {
+  if (!isPlainObject(raw)) {
+    errors.push(`${path}: expected an object with foreground and background`);
+    return undefined;
+  }
+  checkUnknownKeys(raw, ['foreground', 'background', 'level', 'largeText'], path, errors);
+
+  const errorCount = errors.length;
+  const foreground = readString(raw, 'foreground', path, errors);
+  const background = readString(raw, 'background', path, errors);
+  const pair: ContrastPair = { foreground: foreground ?? '', background: background ?? '', level: 'AA', largeText: false };
+
+  if (raw.level !== undefined) {
+    if (typeof raw.level !== 'string' || !CONTRAST_LEVELS.includes(raw.level as ContrastLevel)) {
+      errors.push(`${path}.level: expected one of ${CONTRAST_LEVELS.join(', ')}`);
+    } else {
+      pair.level = raw.level as ContrastLevel;
+    }
+  }
+
+  if (raw.largeText !== undefined) {
+    if (typeof raw.largeText !== 'boolean') {
+      errors.push(`${path}.largeText: expected a boolean`);
+    } else {
+      pair.largeText = raw.largeText;
+    }
+  }
+
+  return errors.length === errorCount ? pair : undefined;
+}
+
+function parseContrast(raw: unknown, errors: string[]): CtdsLintConfig['contrast'] {
+  const contrast: CtdsLintConfig['contrast'] = { pairs: [] };
+  if (!isPlainObject(raw)) {
+    errors.push('contrast: expected an object');
+    return contrast;
+  }
+  checkUnknownKeys(raw, ['pairs'], 'contrast', errors);
+
+  if (raw.pairs !== undefined) {
+    if (!Array.isArray(raw.pairs)) {
+      errors.push('contrast.pairs: expected an array');
+    } else {
+      raw.pairs.forEach((rawPair, index) => {
+        const pair = parseContrastPair(rawPair, `contrast.pairs[${index}]`, errors);
+        if (pair) contrast.pairs.push(pair);
+      });
+    }
+  }
+
+  return contrast;
+}
+
+// ============================================================================
+// Alias option parsing
+// ============================================================================
+
+function parseAliases(raw: unknown, errors: string[]): AliasOptions {
+  const aliases: AliasOptions = { ...DEFAULT_ALIAS_OPTIONS };
+  if (!isPlainObject(raw)) {
+    errors.push('aliases: expected an object');
+    return aliases;
+  }
+  checkUnknownKeys(raw, ['maxDepth'], 'aliases', errors);
+
+  if (raw.maxDepth !== undefined) {
+    if (typeof raw.maxDepth !== 'number' || !Number.isInteger(raw.maxDepth) || raw.maxDepth < 1) {
+      errors.push('aliases.maxDepth: expected a whole number of at least 1');
+    } else {
+      aliases.maxDepth = raw.maxDepth;
+    }
+  }
+
+  return aliases;
+}
+
+// ============================================================================
+// Tier parsing
+// ============================================================================
+
+function parseTier(raw: unknown, path: string, errors: string[]): TierDefinition | undefined {
+  if (!isPlainObject(raw)) {
+    errors.push(`${path}: expected an object with name and collectionPattern`);
+    return undefined;
+  }
+  checkUnknownKeys(raw, ['name', 'collectionPattern'], path, errors);
+
+  const name = readString(raw, 'name', path, errors);
+  const source = readString(raw, 'collectionPattern', path, errors);
+  const collectionPattern = source !== undefined ? compilePattern(source, `${path}.collectionPattern`, errors) : undefined;
+  return name && collectionPattern ? { name, collectionPattern } : undefined;
+}
+
+function parseTiers(raw: unknown, errors: string[]): TierOptions {
+  const tiers: TierOptions = { ...DEFAULT_TIER_OPTIONS };
+  if (!isPlainObject(raw)) {
+    errors.push('tiers: expected an object');
+    return tiers;
+  }
+  checkUnknownKeys(raw, ['order', 'allowSkip'], 'tiers', errors);
+
+  if (raw.order !== undefined) {
+    if (!Array.isArray(raw.order) || raw.order.length < 2) {
+      errors.push('tiers.order: expected an array of at least two tiers, lowest first');
+    } else {
+      const order: TierDefinition[] = [];
+      raw.order.forEach((rawTier, index) => {
+        const tier = parseTier(rawTier, `tiers.order[${index}]`, errors);
+        if (tier) order.push(tier);
+      });
+      tiers.order = order;
+    }
+  }
+
+  if (raw.allowSkip !== undefined) {
+    if (typeof raw.allowSkip !== 'boolean') {
+      errors.push('tiers.allowSkip: expected a boolean');
+    } else {
+      tiers.allowSkip = raw.allowSkip;
+    }
+  }
+
+  return tiers;
+}
+
+// ============================================================================
+// Unused variable parsing
+// ============================================================================
+
+function parseUnused(raw: unknown, errors: string[]): UnusedVariableOptions {
+  const unused: UnusedVariableOptions = { ...DEFAULT_UNUSED_VARIABLE_OPTIONS };
+  if (!isPlainObject(raw)) {
+    errors.push('unused: expected an object');
+    return unused;
+  }
+  checkUnknownKeys(raw, ['publicApi'], 'unused', errors);
+
+  if (raw.publicApi !== undefined) {
+    const source = readString(raw, 'publicApi', 'unused', errors);
+    if (source !== undefined) {
+      unused.publicApi = compilePattern(source, 'unused.publicApi', errors);
+    }
+  }
+
+  return unused;
+}
+
+// ============================================================================
+// Naming parsing
+// ============================================================================
+
+function parseNaming(raw: unknown, errors: string[]): NamingOptions {
+  const naming: NamingOptions = { ...DEFAULT_NAMING_OPTIONS };
+  if (!isPlainObject(raw)) {
+    errors.push('naming: expected an object');
+    return naming;
+  }
+  checkUnknownKeys(raw, ['case', 'allowedCharacters', 'maxDepth', 'reservedWords'], 'naming', errors);
+
+  if (raw.case !== undefined) {
+    if (typeof raw.case !== 'string' || !NAMING_CASES.includes(raw.case as NamingCase)) {
+      errors.push(`naming.case: expected one of ${NAMING_CASES.join(', ')}`);
+    } else {
+      naming.case = raw.case as NamingCase;
+    }
+  }
+
+  if (raw.allowedCharacters !== undefined) {
+    const source = readString(raw, 'allowedCharacters', 'naming', errors);
+    if (source !== undefined) {
+      const problem = characterClassProblem(source);
+      if (problem) {
+        errors.push(`naming.allowedCharacters: invalid character class "${source}" (${problem})`);
+      } else {
+        try {
+          naming.allowedCharacters = new RegExp(`^[${source}]+$`);
+        } catch (error) {
+          errors.push(`naming.allowedCharacters: invalid character class "${source}" (${error instanceof Error ? error.message : 'unknown error'})`);
+        }
+      }
+    }
+  }
+
+  if (raw.maxDepth !== undefined) {
+    if (typeof raw.maxDepth !== 'number' || !Number.isInteger(raw.maxDepth) || raw.maxDepth < 1) {
+      errors.push('naming.maxDepth: expected a whole number of at least 1');
+    } else {
+      naming.maxDepth = raw.maxDepth;
+    }
+  }
+
+  if (raw.reservedWords !== undefined) {
+    const words = readStringArray(raw.reservedWords, 'naming.reservedWords', errors);
+    if (words) naming.reservedWords = words;
+  }
+
+  return naming;
+}
+
+/**
+ * The body is wrapped in `[...]`, so a leading `^` or an unescaped `]`
+ * would silently negate or end the class early.
+ */
+function characterClassProblem(source: string): string | undefined {
+  if (source.startsWith('^')) return 'a leading "^" would negate the class; escape it as "\\^"';
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === ']') {
+      return 'unescaped "]"; escape it as "\\]"';
+    }
+  }
+  return undefined;
+}
+
+// ============================================================================
+// Scale parsing
+// ============================================================================
+
+function parseScaleRule(raw: unknown, path: string, errors: string[]): ScaleRule | undefined {
+  if (!isPlainObject(raw)) {
+    errors.push(`${path}: expected an object with a category`);
+    return undefined;
+  }
+  checkUnknownKeys(raw, ['category', 'grid', 'ratio', 'tolerance', 'ordered', 'noGaps'], path, errors);
+
+  const source = readString(raw, 'category', path, errors);
+  const category = source !== undefined ? compilePattern(source, `${path}.category`, errors) : undefined;
+  const ratio = readPositiveNumber(raw, 'ratio', path, errors);
+  if (ratio !== undefined && ratio <= 1) {
+    errors.push(`${path}.ratio: expected a number greater than 1`);
+  }
+
+  if (!category) return undefined;
+  return {
+    category,
+    grid: readPositiveNumber(raw, 'grid', path, errors),
+    ratio: ratio !== undefined && ratio > 1 ? ratio : undefined,
+    tolerance: readPositiveNumber(raw, 'tolerance', path, errors) ?? 0.1,
+    ordered: readBoolean(raw, 'ordered', path, errors) ?? true,
+    noGaps: readBoolean(raw, 'noGaps', path, errors) ?? true,
+  };
+}
+
+// ============================================================================
+// Mirror parsing
+// ============================================================================
+
+function parseLineHeightRange(raw: unknown, path: string, errors: string[]): LineHeightRange | undefined {
+  if (!isPlainObject(raw)) {
+    errors.push(`${path}: expected an object with sizes, min and max`);
+    return undefined;
+  }
+  checkUnknownKeys(raw, ['sizes', 'min', 'max'], path, errors);
+
+  const source = readString(raw, 'sizes', path, errors);
+  const sizes = source !== undefined ? compilePattern(source, `${path}.sizes`, errors) : undefined;
+  const min = readPositiveNumber(raw, 'min', path, errors);
+  const max = readPositiveNumber(raw, 'max', path, errors);
+  if (min === undefined || max === undefined) {
+    if (raw.min === undefined || raw.max === undefined) errors.push(`${path}: expected both min and max`);
+    return undefined;
+  }
+  if (min > max) {
+    errors.push(`${path}: min must not be greater than max`);
+    return undefined;
+  }
+  return sizes ? { sizes, min, max } : undefined;
+}
+
+function parseMirrors(raw: unknown, errors: string[]): MirrorOptions {
+  const mirrors: MirrorOptions = { ...DEFAULT_MIRROR_OPTIONS };
+  if (!isPlainObject(raw)) {
+    errors.push('mirrors: expected an object');
+    return mirrors;
+  }
+  checkUnknownKeys(raw, ['lineHeight', 'letterSpacingTrend'], 'mirrors', errors);
+
+  if (raw.lineHeight !== undefined) {
+    if (!Array.isArray(raw.lineHeight)) {
+      errors.push('mirrors.lineHeight: expected an array');
+    } else {
+      const ranges: LineHeightRange[] = [];
+      raw.lineHeight.forEach((rawRange, index) => {
+        const range = parseLineHeightRange(rawRange, `mirrors.lineHeight[${index}]`, errors);
+        if (range) ranges.push(range);
+      });
+      mirrors.lineHeight = ranges;
+    }
+  }
+
+  const trend = readBoolean(raw, 'letterSpacingTrend', 'mirrors', errors);
+  if (trend !== undefined) mirrors.letterSpacingTrend = trend;
+
+  return mirrors;
+}
+
+// ============================================================================
+// Semantic role parsing
+// ============================================================================
+
+function parseRole(raw: unknown, path: string, errors: string[]): SemanticRole | undefined {
+  if (!isPlainObject(raw)) {
+    errors.push(`${path}: expected an object with tokens and properties`);
+    return undefined;
+  }
+  checkUnknownKeys(raw, ['tokens', 'properties', 'nodeTypes'], path, errors);
+
+  const tokens = readString(raw, 'tokens', path, errors);
+  const properties = readStringArray(raw.properties, `${path}.properties`, errors);
+  const nodeTypes = raw.nodeTypes !== undefined
+    ? readStringArray(raw.nodeTypes, `${path}.nodeTypes`, errors)
+    : undefined;
+
+  if (!tokens || !properties) return undefined;
+  return nodeTypes ? { tokens, properties, nodeTypes } : { tokens, properties };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Validate a raw config object (already parsed from JSON/YAML) and resolve
+ * it into a `CtdsLintConfig`. Omitted sections fall back to the defaults.
+ *
+ * @param raw - Parsed config file contents
+ * @returns The resolved config plus any schema errors
+ */
+export function parseConfig(raw: unknown): ConfigParseResult {
+  const errors: string[] = [];
+  const config: CtdsLintConfig = { ...DEFAULT_CONFIG };
+
+  if (raw === undefined || raw === null) {
+    return { config, errors };
+  }
+  if (!isPlainObject(raw)) {
+    return { config, errors: ['(root): expected an object'] };
+  }
+
+  checkUnknownKeys(raw, ['collections', 'rules', 'contrast', 'aliases', 'tiers', 'unused', 'naming', 'scales', 'mirrors', 'roles'], '', errors);
+
+  if (raw.collections !== undefined) {
+    if (!Array.isArray(raw.collections)) {
+      errors.push('collections: expected an array');
+    } else {
+      const collections: CollectionRequirement[] = [];
+      raw.collections.forEach((rawCollection, index) => {
+        const collection = parseCollection(rawCollection, `collections[${index}]`, errors);
+        if (collection) collections.push(collection);
+      });
+      checkMirrorReferences(collections, errors);
+      config.collections = collections;
+    }
+  }
+
+  if (raw.rules !== undefined) {
+    config.rules = parseRules(raw.rules, errors);
+  }
+
+  if (raw.contrast !== undefined) {
+    config.contrast = parseContrast(raw.contrast, errors);
+  }
+
+  if (raw.aliases !== undefined) {
+    config.aliases = parseAliases(raw.aliases, errors);
+  }
+
+  if (raw.tiers !== undefined) {
+    config.tiers = parseTiers(raw.tiers, errors);
+  }
+
+  if (raw.unused !== undefined) {
+    config.unused = parseUnused(raw.unused, errors);
+  }
+
+  if (raw.naming !== undefined) {
+    config.naming = parseNaming(raw.naming, errors);
+  }
+
+  if (raw.scales !== undefined) {
+    if (!Array.isArray(raw.scales)) {
+      errors.push('scales: expected an array');
+    } else {
+      const scales: ScaleRule[] = [];
+      raw.scales.forEach((rawRule, index) => {
+        const rule = parseScaleRule(rawRule, `scales[${index}]`, errors);
+        if (rule) scales.push(rule);
+      });
+      config.scales = scales;
+    }
+  }
+
+  if (raw.mirrors !== undefined) {
+    config.mirrors = parseMirrors(raw.mirrors, errors);
+  }
+
+  if (raw.roles !== undefined) {
+    if (!Array.isArray(raw.roles)) {
+      errors.push('roles: expected an array');
+    } else {
+      const roles: SemanticRole[] = [];
+      raw.roles.forEach((rawRole, index) => {
+        const role = parseRole(rawRole, `roles[${index}]`, errors);
+        if (role) roles.push(role);
+      });
+      config.roles = roles;
+    }
+  }
+
+  return { config, errors };
+}
+
+/**
+ * Format schema errors as a single message suitable for an Error or the UI.
+ */
+export function formatConfigErrors(source: string, errors: string[]): string {
+  return `Invalid ctdsLint config (${source}):\n${errors.map(e => `  - ${e}`).join('\n')}`;
+}
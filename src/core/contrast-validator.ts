@@ -0,0 +1,613 @@
+/**
+ * WCAG 2.x contrast checking for text inside components.
+ *
+ * Each TEXT node is compared against the background formed by the solid
+ * fills of its ancestors (composited bottom-up, respecting alpha and the
+ * opacity of each layer and its ancestors). Colours bound to variables are resolved through their alias
+ * chains in each collection's default mode, so the check reflects the
+ * tokens rather than whatever value happened to be cached on the paint.
+ *
+ * Text without a determinable background (no ancestor fill, or an
+ * ancestor gradient/image) is skipped rather than guessed.
+ *
+ * Configured colour pairs (e.g. `colors/text/*` on `colors/bg/*`) are also
+ * checked variable-to-variable in every mode of the foreground's
+ * collection, so a regression in one theme mode is reported on its own.
+ *
+ * Works on the platform-neutral types so both the plugin and the CLI can
+ * use it.
+ */
+
+import { AuditCheck, AuditRawValue } from '../types';
+import type {
+  LintVariable,
+  LintVariableCollection,
+  LintNode,
+  LintComponent,
+  LintRGBA,
+  LintPaint,
+  LintSolidPaint,
+  LintBoundVariable,
+} from '../shared/types';
+import { RULE_IDS, RuleSeverities, getRuleSeverity } from './rules';
+import { resolveVariableValue, isColorValue, compileNamePattern, listLines } from './token-resolver';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** WCAG conformance level */
+export type ContrastLevel = 'AA' | 'AAA';
+
+/**
+ * A text node whose contrast falls below a WCAG threshold
+ */
+export interface ContrastIssue {
+  /** Variant (or component) the text belongs to */
+  variantName: string;
+  nodeId: string;
+  nodeName: string;
+  /** Contrast ratio, rounded to two decimals */
+  ratio: number;
+  /** Ratio required for the failed level at this text size */
+  required: number;
+  /** Highest level the text fails */
+  level: ContrastLevel;
+  largeText: boolean;
+  foreground: string;
+  background: string;
+}
+
+/**
+ * Contrast result for one component
+ */
+export interface ComponentContrastResult {
+  componentName: string;
+  componentId: string;
+  /** Text nodes compared against a known background */
+  textNodesChecked: number;
+  issues: ContrastIssue[];
+}
+
+/**
+ * A semantic colour pair to check in every mode. Patterns match variable
+ * names, with `*` matching any characters (including `/`); every
+ * foreground match is checked against every background match.
+ */
+export interface ContrastPair {
+  foreground: string;
+  background: string;
+  /** Level to enforce (default AA) */
+  level: ContrastLevel;
+  /** Use the large-text thresholds (default false) */
+  largeText: boolean;
+}
+
+/**
+ * A foreground/background combination that fails in one mode
+ */
+export interface ModeContrastFailure {
+  pair: ContrastPair;
+  foregroundName: string;
+  backgroundName: string;
+  modeName: string;
+  ratio: number;
+  required: number;
+  foreground: string;
+  background: string;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Minimum contrast ratios (WCAG 2.x success criteria 1.4.3 and 1.4.6) */
+export const CONTRAST_THRESHOLDS: Record<ContrastLevel, { normal: number; large: number }> = {
+  AA: { normal: 4.5, large: 3 },
+  AAA: { normal: 7, large: 4.5 },
+};
+
+/** Text at or above this size (18pt) counts as large */
+const LARGE_TEXT_MIN_SIZE = 24;
+
+/** Bold text at or above this size (14pt) counts as large */
+const LARGE_BOLD_TEXT_MIN_SIZE = 18.66;
+
+/** Font weight from which text counts as bold */
+const BOLD_FONT_WEIGHT = 700;
+
+/** Maximum issues listed per check before summarising the rest */
+const MAX_LISTED_ISSUES = 10;
+
+// ============================================================================
+// WCAG Colour Math
+// ============================================================================
+
+function channelToLinear(channel: number): number {
+  return channel <= 0.03928 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * WCAG relative luminance of an sRGB colour (0–1 channels, alpha ignored).
+ */
+export function relativeLuminance(color: LintRGBA): number {
+  return 0.2126 * channelToLinear(color.r) +
+    0.7152 * channelToLinear(color.g) +
+    0.0722 * channelToLinear(color.b);
+}
+
+/**
+ * WCAG contrast ratio between two opaque colours, from 1 to 21.
+ */
+export function contrastRatio(a: LintRGBA, b: LintRGBA): number {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
+/**
+ * Whether text counts as large for WCAG purposes: 18pt (24px) or more, or
+ * 14pt (18.66px) or more when bold. Mixed values count as normal text.
+ */
+export function isLargeText(
+  fontSize: number | 'MIXED' | undefined,
+  fontWeight?: number | 'MIXED'
+): boolean {
+  if (typeof fontSize !== 'number') return false;
+  if (fontSize >= LARGE_TEXT_MIN_SIZE) return true;
+  return typeof fontWeight === 'number' && fontWeight >= BOLD_FONT_WEIGHT &&
+    fontSize >= LARGE_BOLD_TEXT_MIN_SIZE;
+}
+
+/**
+ * Composite `top` over `bottom` (Porter-Duff "over"). Either may be
+ * translucent; the result is opaque only if one of them is.
+ */
+export function compositeOver(top: LintRGBA, bottom: LintRGBA | undefined): LintRGBA {
+  if (!bottom || top.a >= 1) return top;
+  const alpha = top.a + bottom.a * (1 - top.a);
+  if (alpha === 0) return { r: 0, g: 0, b: 0, a: 0 };
+  const mix = (t: number, b: number): number => (t * top.a + b * bottom.a * (1 - top.a)) / alpha;
+  return { r: mix(top.r, bottom.r), g: mix(top.g, bottom.g), b: mix(top.b, bottom.b), a: alpha };
+}
+
+function formatHex(color: LintRGBA): string {
+  const hex = (v: number): string => Math.round(v * 255).toString(16).padStart(2, '0');
+  return `#${hex(color.r)}${hex(color.g)}${hex(color.b)}`;
+}
+
+// ============================================================================
+// Paint Resolution
+// ============================================================================
+
+/** Resolves a paint's colour, preferring its bound variable's value */
+type ColorResolver = (paint: LintSolidPaint, binding: LintBoundVariable | undefined) => LintRGBA;
+
+function createColorResolver(
+  collections: LintVariableCollection[],
+  variables: LintVariable[]
+): ColorResolver {
+  const collectionsById = new Map(collections.map(c => [c.id, c]));
+  const variablesById = new Map(variables.map(v => [v.id, v]));
+  const cache = new Map<string, LintRGBA | undefined>();
+
+  return (paint, binding) => {
+    if (!binding?.id) return paint.color;
+    if (!cache.has(binding.id)) {
+      const variable = variablesById.get(binding.id);
+      const value = variable ? resolveVariableValue(variable, variablesById, collectionsById) : undefined;
+      cache.set(binding.id, isColorValue(value) ? value : undefined);
+    }
+    return cache.get(binding.id) ?? paint.color;
+  };
+}
+
+/**
+ * Composite a node's visible fills over a backdrop.
+ *
+ * @param inheritedOpacity - Combined opacity of the node's ancestors
+ * @returns The resulting colour, or null when a visible non-solid paint
+ *   (gradient, image, ...) makes the result unknowable
+ */
+function compositeFills(
+  node: LintNode,
+  backdrop: LintRGBA | undefined,
+  resolveColor: ColorResolver,
+  inheritedOpacity = 1
+): LintRGBA | undefined | null {
+  const fills: LintPaint[] = node.fills ?? [];
+  const bindings = (node.boundVariables?.fills as LintBoundVariable[] | undefined) || [];
+  const opacity = (node.opacity ?? 1) * inheritedOpacity;
+  let result = backdrop;
+
+  // Paints are stored bottom-most first
+  for (let i = 0; i < fills.length; i++) {
+    const fill = fills[i];
+    if (fill.visible === false) continue;
+    if (fill.type !== 'SOLID') return null;
+
+    const color = resolveColor(fill as LintSolidPaint, bindings[i]);
+    result = compositeOver({ ...color, a: (color.a ?? 1) * opacity }, result);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Variants to check: the COMPONENT children of a component set, or the
+ * component itself.
+ */
+function getVariants(node: LintNode): LintNode[] {
+  if (node.type === 'COMPONENT_SET') {
+    return (node.children ?? []).filter(child => child.type === 'COMPONENT');
+  }
+  return [node];
+}
+
+/**
+ * Check every text node in a component against its ancestor background.
+ *
+ * @param componentNode - Component or component set
+ * @param resolveColor - Colour resolver from `createColorResolver`
+ */
+function checkComponentContrast(componentNode: LintNode, resolveColor: ColorResolver): ComponentContrastResult {
+  const result: ComponentContrastResult = {
+    componentName: componentNode.name,
+    componentId: componentNode.id,
+    textNodesChecked: 0,
+    issues: [],
+  };
+
+  const visit = (
+    node: LintNode,
+    variantName: string,
+    background: LintRGBA | undefined | null,
+    inheritedOpacity: number
+  ): void => {
+    if (node.type === 'TEXT') {
+      // Unknown (null), missing or translucent backgrounds cannot be judged
+      if (!background || background.a < 0.999) return;
+
+      const foreground = compositeFills(node, undefined, resolveColor, inheritedOpacity);
+      if (!foreground || foreground.a === 0) return;
+
+      result.textNodesChecked++;
+      const blended = compositeOver(foreground, background);
+      const ratio = contrastRatio(blended, background);
+      const largeText = isLargeText(node.fontSize, node.fontWeight);
+      const size: 'normal' | 'large' = largeText ? 'large' : 'normal';
+
+      const failedLevel: ContrastLevel | undefined =
+        ratio < CONTRAST_THRESHOLDS.AA[size] ? 'AA' :
+        ratio < CONTRAST_THRESHOLDS.AAA[size] ? 'AAA' : undefined;
+      if (failedLevel) {
+        result.issues.push({
+          variantName,
+          nodeId: node.id,
+          nodeName: node.name,
+          ratio: Math.round(ratio * 100) / 100,
+          required: CONTRAST_THRESHOLDS[failedLevel][size],
+          level: failedLevel,
+          largeText,
+          foreground: formatHex(blended),
+          background: formatHex(background),
+        });
+      }
+      return;
+    }
+
+    // Once a gradient/image is in the stack the background stays unknown
+    const ownBackground = background === null ? null : compositeFills(node, background, resolveColor, inheritedOpacity);
+    // A container's opacity fades its whole subtree, text included
+    const childOpacity = inheritedOpacity * (node.opacity ?? 1);
+    for (const child of node.children ?? []) {
+      visit(child, variantName, ownBackground, childOpacity);
+    }
+  };
+
+  for (const variant of getVariants(componentNode)) {
+    visit(variant, variant.name, undefined, 1);
+  }
+
+  return result;
+}
+
+function formatIssue(issue: ContrastIssue, showVariant: boolean): string {
+  const where = showVariant ? `${issue.variantName} / ${issue.nodeName}` : issue.nodeName;
+  return `  • ${where}: ${issue.ratio.toFixed(2)}:1, needs ${issue.required}:1` +
+    `${issue.largeText ? ' (large text)' : ''} — ${issue.foreground} on ${issue.background}`;
+}
+
+/**
+ * Build one check per failed level for a component
+ */
+function buildContrastChecks(
+  result: ComponentContrastResult,
+  componentNode: LintNode,
+  pageName: string,
+  severities: RuleSeverities
+): AuditCheck[] {
+  const checks: AuditCheck[] = [];
+  const showVariant = componentNode.type === 'COMPONENT_SET';
+  const levels: Array<{ level: ContrastLevel; ruleId: string }> = [
+    { level: 'AA', ruleId: RULE_IDS.contrastAA },
+    { level: 'AAA', ruleId: RULE_IDS.contrastAAA },
+  ];
+
+  for (const { level, ruleId } of levels) {
+    const issues = result.issues.filter(issue => issue.level === level);
+    const severity = getRuleSeverity(ruleId, severities);
+    if (issues.length === 0 || severity === 'off') continue;
+
+    const lines = issues.map(issue => formatIssue(issue, showVariant));
+    const listed = listLines(lines, MAX_LISTED_ISSUES);
+    const rawValues: AuditRawValue[] = issues.map(issue => ({
+      nodeId: issue.nodeId,
+      nodeName: showVariant ? `${issue.variantName} / ${issue.nodeName}` : issue.nodeName,
+      property: 'contrast',
+      value: `${issue.ratio.toFixed(2)}:1`,
+    }));
+
+    // Larger text only helps layers that don't already count as large
+    const sizeHint = issues.some(issue => !issue.largeText)
+      ? `, or increase the text size to ${LARGE_TEXT_MIN_SIZE}px or more (${LARGE_BOLD_TEXT_MIN_SIZE}px or more when bold)`
+      : '';
+
+    checks.push({
+      ruleId,
+      check: `${result.componentName} — text contrast (${level})`,
+      status: severity === 'warning' ? 'warning' : 'fail',
+      suggestion: `${issues.length} text layer${issues.length !== 1 ? 's' : ''} below WCAG ${level} contrast:\n${listed}\n\n` +
+        `To fix: Use a darker/lighter text or background colour variable${sizeHint}.`,
+      pageName,
+      nodeId: result.componentId,
+      rawValues,
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * Check text contrast in all components.
+ *
+ * Only failing levels produce checks; components without issues are
+ * covered by their variable-binding pass check.
+ *
+ * @param components - Components discovered by the adapter, annotated with page name
+ * @param collections - Variable collections (for default modes)
+ * @param variables - Variables used to resolve bound colours
+ * @param severities - Optional rule severity overrides from the project config
+ */
+export function validateComponentContrast(
+  components: LintComponent[],
+  collections: LintVariableCollection[],
+  variables: LintVariable[],
+  severities: RuleSeverities = {}
+): {
+  results: ComponentContrastResult[];
+  auditChecks: AuditCheck[];
+} {
+  const results: ComponentContrastResult[] = [];
+  const auditChecks: AuditCheck[] = [];
+
+  try {
+    console.log('🌓 [CONTRAST] Checking', components.length, 'components...');
+    const resolveColor = createColorResolver(collections, variables);
+
+    for (const component of components) {
+      const result = checkComponentContrast(component.node, resolveColor);
+      results.push(result);
+      auditChecks.push(...buildContrastChecks(result, component.node, component.pageName, severities));
+    }
+
+    console.log('🌓 [CONTRAST] Complete:', {
+      textNodes: results.reduce((sum, r) => sum + r.textNodesChecked, 0),
+      issues: results.reduce((sum, r) => sum + r.issues.length, 0),
+    });
+    return { results, auditChecks };
+  } catch (error) {
+    console.error('❌ [CONTRAST] Error checking contrast:', error);
+    return {
+      results,
+      auditChecks: [{
+        ruleId: RULE_IDS.contrastAA,
+        check: 'Text contrast',
+        status: 'warning',
+        suggestion: `Could not check text contrast: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      }],
+    };
+  }
+}
+
+// ============================================================================
+// Mode Contrast Pairs
+// ============================================================================
+
+function describePair(pair: ContrastPair): string {
+  return `${pair.foreground} on ${pair.background}`;
+}
+
+/**
+ * Modes of a collection, falling back to the mode IDs used by a variable
+ * when the adapter did not supply mode names.
+ */
+function getModes(
+  collection: LintVariableCollection | undefined,
+  variable: LintVariable
+): Array<{ modeId: string; name: string }> {
+  if (collection?.modes && collection.modes.length > 0) return collection.modes;
+  return Object.keys(variable.valuesByMode).map(modeId => ({ modeId, name: modeId }));
+}
+
+/**
+ * Mode of the background's collection to pair with a foreground mode:
+ * the same mode within one collection, otherwise the mode with the same
+ * name, otherwise the collection's default.
+ */
+function matchBackgroundMode(
+  modeId: string,
+  modeName: string,
+  foreground: LintVariable,
+  background: LintVariable,
+  collectionsById: Map<string, LintVariableCollection>
+): string | undefined {
+  if (background.variableCollectionId === foreground.variableCollectionId) return modeId;
+  const collection = collectionsById.get(background.variableCollectionId);
+  const sameName = collection?.modes?.find(mode => mode.name.toLowerCase() === modeName.toLowerCase());
+  return sameName?.modeId ?? collection?.defaultModeId;
+}
+
+/**
+ * Check configured colour pairs in every mode.
+ *
+ * Each failing foreground/background/mode combination gets its own check,
+ * so fixing Light does not hide a Dark regression (and baselines track
+ * each mode separately). Pairs with no failures produce one pass check.
+ *
+ * @param pairs - Colour pairs from the project config
+ * @param collections - Variable collections (for modes)
+ * @param variables - All variables
+ * @param severities - Optional rule severity overrides from the project config
+ */
+export function validateModeContrast(
+  pairs: ContrastPair[],
+  collections: LintVariableCollection[],
+  variables: LintVariable[],
+  severities: RuleSeverities = {}
+): {
+  failures: ModeContrastFailure[];
+  auditChecks: AuditCheck[];
+} {
+  const failures: ModeContrastFailure[] = [];
+  const auditChecks: AuditCheck[] = [];
+  const severity = getRuleSeverity(RULE_IDS.contrastModePair, severities);
+  // Config problems get their own rule so a typo never reads as a contrast failure
+  const configSeverity = getRuleSeverity(RULE_IDS.contrastPairConfig, severities);
+  if (pairs.length === 0 || severity === 'off') {
+    return { failures, auditChecks };
+  }
+
+  const collectionsById = new Map(collections.map(c => [c.id, c]));
+  const variablesById = new Map(variables.map(v => [v.id, v]));
+  const resolveColor = (variable: LintVariable, modeId: string | undefined): LintRGBA | undefined => {
+    const value = resolveVariableValue(variable, variablesById, collectionsById, modeId);
+    return isColorValue(value) ? value : undefined;
+  };
+  const isColorVariable = (variable: LintVariable): boolean => resolveColor(variable, undefined) !== undefined;
+
+  console.log('🌓 [CONTRAST] Checking', pairs.length, 'colour pairs across modes...');
+
+  for (const pair of pairs) {
+    const fgPattern = compileNamePattern(pair.foreground);
+    const bgPattern = compileNamePattern(pair.background);
+    const foregrounds = variables.filter(v => fgPattern.test(v.name) && isColorVariable(v));
+    const backgrounds = variables.filter(v => bgPattern.test(v.name) && isColorVariable(v));
+
+    if (foregrounds.length === 0 || backgrounds.length === 0) {
+      const missing = foregrounds.length === 0 ? pair.foreground : pair.background;
+      if (configSeverity !== 'off') {
+        auditChecks.push({
+          ruleId: RULE_IDS.contrastPairConfig,
+          check: `Contrast pair ${describePair(pair)}`,
+          status: configSeverity === 'warning' ? 'warning' : 'fail',
+          suggestion: `No colour variables match "${missing}". Update contrast.pairs in the project config.`,
+        });
+      }
+      continue;
+    }
+
+    const required = CONTRAST_THRESHOLDS[pair.level][pair.largeText ? 'large' : 'normal'];
+    const modeNames = new Set<string>();
+    let combinations = 0;
+    let skipped = 0;
+    let unresolved = 0;
+    const pairFailures: ModeContrastFailure[] = [];
+
+    for (const fg of foregrounds) {
+      const modes = getModes(collectionsById.get(fg.variableCollectionId), fg);
+      for (const bg of backgrounds) {
+        if (bg.id === fg.id) continue;
+
+        for (const mode of modes) {
+          modeNames.add(mode.name);
+          const fgColor = resolveColor(fg, mode.modeId);
+          const bgColor = resolveColor(bg, matchBackgroundMode(mode.modeId, mode.name, fg, bg, collectionsById));
+          if (!fgColor || !bgColor) {
+            unresolved++;
+            continue;
+          }
+          if (bgColor.a < 0.999) {
+            skipped++;
+            continue;
+          }
+
+          combinations++;
+          const blended = compositeOver(fgColor, bgColor);
+          const ratio = contrastRatio(blended, bgColor);
+          if (ratio < required) {
+            pairFailures.push({
+              pair,
+              foregroundName: fg.name,
+              backgroundName: bg.name,
+              modeName: mode.name,
+              ratio: Math.round(ratio * 100) / 100,
+              required,
+              foreground: formatHex(blended),
+              background: formatHex(bgColor),
+            });
+          }
+        }
+      }
+    }
+
+    for (const failure of pairFailures) {
+      const passingModes = Array.from(modeNames).filter(name =>
+        !pairFailures.some(f =>
+          f.modeName === name && f.foregroundName === failure.foregroundName && f.backgroundName === failure.backgroundName
+        )
+      );
+      auditChecks.push({
+        ruleId: RULE_IDS.contrastModePair,
+        check: `${failure.foregroundName} on ${failure.backgroundName} — ${failure.modeName}`,
+        status: severity === 'warning' ? 'warning' : 'fail',
+        suggestion: `${failure.ratio.toFixed(2)}:1 in ${failure.modeName}, needs ${required}:1 (WCAG ${pair.level}` +
+          `${pair.largeText ? ', large text' : ''}) — ${failure.foreground} on ${failure.background}.` +
+          (passingModes.length > 0 ? ` Passes in: ${passingModes.join(', ')}.` : '') +
+          `\n\nTo fix: Adjust the ${failure.modeName} value of either variable (pair: ${describePair(pair)}).`,
+      });
+    }
+    failures.push(...pairFailures);
+
+    const skipNotes = [
+      skipped > 0 ? `${skipped} skipped because the background is translucent` : '',
+      unresolved > 0 ? `${unresolved} skipped because a colour could not be resolved in that mode` : '',
+    ].filter(Boolean);
+
+    if (combinations === 0) {
+      if (configSeverity === 'off') continue;
+      auditChecks.push({
+        ruleId: RULE_IDS.contrastPairConfig,
+        check: `Contrast pair ${describePair(pair)}`,
+        status: configSeverity === 'warning' ? 'warning' : 'fail',
+        suggestion: `No combination could be checked: ${skipNotes.length > 0 ? skipNotes.join('; ') : 'both patterns match only the same variable'}. Update contrast.pairs in the project config, ` +
+          `or give the variables opaque, resolvable values.`,
+      });
+    } else if (pairFailures.length === 0) {
+      auditChecks.push({
+        ruleId: RULE_IDS.contrastModePair,
+        check: `Contrast pair ${describePair(pair)}`,
+        status: 'pass',
+        suggestion: `${combinations} combination${combinations !== 1 ? 's' : ''} meet WCAG ${pair.level} in every mode (${Array.from(modeNames).join(', ')})` +
+          (skipNotes.length > 0 ? `; ${skipNotes.join('; ')}` : ''),
+      });
+    }
+  }
+
+  console.log('🌓 [CONTRAST] Colour pairs complete:', { pairs: pairs.length, failures: failures.length });
+  return { failures, auditChecks };
+}
@@ -0,0 +1,198 @@
+/**
+ * Duplicate-value token detection.
+ *
+ * Finds variables in the same collection that resolve to the same type and
+ * value in every mode — two Primitives colours with the same hex, or
+ * `spacing/md` and `spacing/16` both being 16. Each group is reported as
+ * one of two kinds, each under its own rule:
+ *
+ *   - identical values – at least one member holds (or resolves through a
+ *     different variable to) the shared value
+ *   - shared aliases   – every member aliases the same variables in every
+ *     mode, e.g. Theme's `colors/bg/card` and `colors/bg/surface` both
+ *     pointing at `color/white` and `color/gray/900`. These are semantic
+ *     names for one decision, so they are merge candidates rather than
+ *     mistakes.
+ *
+ * Colours are compared at 8-bit precision, as Figma displays them. Numbers
+ * and strings are only compared within a category (the first name segment),
+ * since one type covers unrelated scales: `font-size/md` and `spacing/md`
+ * both being 16 is a coincidence, not a duplicate. Booleans are skipped;
+ * two flags sharing a value are never merge candidates.
+ */
+
+import { AuditCheck } from '../types';
+import type { LintVariable, LintVariableCollection } from '../shared/types';
+import { RULE_IDS, RuleSeverities, getRuleSeverity } from './rules';
+import { traceAlias, formatResolvedValue, isColorValue, ResolvedValue, modeName } from './token-resolver';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DuplicateKind = 'value' | 'alias';
+
+/**
+ * Variables in one collection with the same value in every mode
+ */
+export interface DuplicateGroup {
+  kind: DuplicateKind;
+  collectionName: string;
+  variableNames: string[];
+  /** Shared value per mode, e.g. `Light: #ffffff` */
+  values: string[];
+  /** Variables every member aliases (kind 'alias') */
+  aliasTargets?: string[];
+}
+
+export interface DuplicateValidationResult {
+  groups: DuplicateGroup[];
+  auditChecks: AuditCheck[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function valueKey(value: ResolvedValue): string {
+  return `${isColorValue(value) ? 'color' : typeof value}:${formatResolvedValue(value)}`;
+}
+
+/**
+ * Mode IDs a variable should have values for, in display order
+ */
+function modeIds(variable: LintVariable, collection: LintVariableCollection | undefined): string[] {
+  return collection?.modes?.map(mode => mode.modeId) ?? Object.keys(variable.valuesByMode).sort();
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Find variables that duplicate each other within a collection.
+ *
+ * Variables whose alias chain cannot be resolved in some mode are skipped;
+ * the alias graph validator reports those.
+ *
+ * @param collections - Variable collections
+ * @param variables - Local variables
+ * @param severities - Optional rule severity overrides from the project config
+ */
+export function validateDuplicateValues(
+  collections: LintVariableCollection[],
+  variables: LintVariable[],
+  severities: RuleSeverities = {}
+): DuplicateValidationResult {
+  const valueSeverity = getRuleSeverity(RULE_IDS.duplicateValue, severities);
+  const aliasSeverity = getRuleSeverity(RULE_IDS.duplicateAlias, severities);
+  const groups: DuplicateGroup[] = [];
+  const auditChecks: AuditCheck[] = [];
+  if (valueSeverity === 'off' && aliasSeverity === 'off') {
+    return { groups, auditChecks };
+  }
+
+  console.log('👯 [DUPLICATES] Comparing values of', variables.length, 'variables...');
+  const collectionsById = new Map(collections.map(c => [c.id, c]));
+  const variablesById = new Map(variables.map(v => [v.id, v]));
+
+  // Group by collection and resolved value in every mode
+  const byValue = new Map<string, Array<{ variable: LintVariable; values: string[]; aliasKey?: string; aliasTargets: string[] }>>();
+  for (const variable of variables) {
+    const collection = collectionsById.get(variable.variableCollectionId);
+    const modes = modeIds(variable, collection);
+    const values: string[] = [];
+    const keys: string[] = [];
+    const aliasTargets: string[] = [];
+    let allAliases = true;
+
+    for (const modeId of modes) {
+      const trace = traceAlias(variable, variablesById, collectionsById, modeId);
+      if (trace.status !== 'resolved' || trace.value === undefined || typeof trace.value === 'boolean') break;
+      keys.push(valueKey(trace.value));
+      values.push(`${modeName(collection, modeId)}: ${formatResolvedValue(trace.value)}`);
+      if (trace.chain.length > 1) {
+        aliasTargets.push(trace.chain[trace.chain.length - 1].name);
+      } else {
+        allAliases = false;
+      }
+    }
+    if (keys.length === 0 || keys.length !== modes.length) continue;
+
+    const category = keys[0].startsWith('color:') ? '' : variable.name.split('/')[0];
+    const key = [variable.variableCollectionId, category, ...keys].join('\u0000');
+    const entries = byValue.get(key) ?? [];
+    entries.push({
+      variable,
+      values,
+      aliasKey: allAliases ? aliasTargets.join('\u0000') : undefined,
+      aliasTargets,
+    });
+    byValue.set(key, entries);
+  }
+
+  for (const entries of byValue.values()) {
+    if (entries.length < 2) continue;
+    const first = entries[0];
+    const kind: DuplicateKind = first.aliasKey !== undefined && entries.every(e => e.aliasKey === first.aliasKey)
+      ? 'alias'
+      : 'value';
+    groups.push({
+      kind,
+      collectionName: collectionsById.get(first.variable.variableCollectionId)?.name ?? '',
+      variableNames: entries.map(e => e.variable.name).sort((a, b) => a.localeCompare(b)),
+      values: first.values,
+      aliasTargets: kind === 'alias' ? Array.from(new Set(first.aliasTargets)) : undefined,
+    });
+  }
+  groups.sort((a, b) =>
+    a.collectionName.localeCompare(b.collectionName) || a.variableNames[0].localeCompare(b.variableNames[0])
+  );
+
+  for (const group of groups) {
+    const severity = group.kind === 'alias' ? aliasSeverity : valueSeverity;
+    if (severity === 'off') continue;
+    const names = group.variableNames.map(name => `  • ${name}`).join('\n');
+
+    if (group.kind === 'alias') {
+      auditChecks.push({
+        ruleId: RULE_IDS.duplicateAlias,
+        check: `${group.collectionName} / ${group.variableNames[0]} — merge candidate`,
+        status: severity === 'warning' ? 'warning' : 'fail',
+        suggestion: `${group.variableNames.length} variables all alias ${(group.aliasTargets ?? []).join(' / ')} (${group.values.join(', ')}):\n${names}\n\n` +
+          `To fix: If they express the same design decision, merge them into one variable; otherwise alias different variables so they can evolve independently.`,
+      });
+    } else {
+      auditChecks.push({
+        ruleId: RULE_IDS.duplicateValue,
+        check: `${group.collectionName} / ${group.variableNames[0]} — duplicate value`,
+        status: severity === 'warning' ? 'warning' : 'fail',
+        suggestion: `${group.variableNames.length} variables resolve to ${group.values.join(', ')}:\n${names}\n\n` +
+          `To fix: Keep one variable and alias (or replace) the others.`,
+      });
+    }
+  }
+
+  if (valueSeverity !== 'off' && !groups.some(g => g.kind === 'value')) {
+    auditChecks.push({
+      ruleId: RULE_IDS.duplicateValue,
+      check: 'Variable values — duplicates',
+      status: 'pass',
+      suggestion: 'No two variables in a collection resolve to the same value in every mode',
+    });
+  }
+  if (aliasSeverity !== 'off' && !groups.some(g => g.kind === 'alias')) {
+    auditChecks.push({
+      ruleId: RULE_IDS.duplicateAlias,
+      check: 'Variable aliases — merge candidates',
+      status: 'pass',
+      suggestion: 'No two variables in a collection alias the same variables in every mode',
+    });
+  }
+
+  console.log('👯 [DUPLICATES] Complete:', {
+    identicalValues: groups.filter(g => g.kind === 'value').length,
+    sharedAliases: groups.filter(g => g.kind === 'alias').length,
+  });
+  return { groups, auditChecks };
+}
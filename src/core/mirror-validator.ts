@@ -0,0 +1,269 @@
+/**
+ * Value checks across mirrored typography categories.
+ *
+ * `mirrorCategory` makes sure line-height and letter-spacing have the same
+ * size keys as font-size; this checks that the values behind those keys
+ * make sense together, in every mode:
+ *
+ *   - line-height / font-size ratio lies within the range configured for
+ *     the size (e.g. display 1.0–1.2, body 1.4–1.6)
+ *   - letter-spacing gets tighter (or stays the same) as font size grows,
+ *     compared in em (letter-spacing / font-size)
+ *
+ * Variables are paired by the path after the category segment, so
+ * `font-size/display/lg`, `line-height/display/lg` and
+ * `letter-spacing/display/lg` belong together. Line-height and
+ * letter-spacing values are taken to be pixels, as Figma binds them; a
+ * line-height of 3 or less is read as a unitless multiplier instead.
+ */
+
+import { AuditCheck } from '../types';
+import type { LintVariable, LintVariableCollection } from '../shared/types';
+import { RULE_IDS, RuleSeverities, getRuleSeverity } from './rules';
+import { traceAlias, listLines } from './token-resolver';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Allowed line-height / font-size ratio for matching sizes
+ */
+export interface LineHeightRange {
+  /** Matched against the size key, e.g. `display/lg` or `2xl` */
+  sizes: RegExp;
+  min: number;
+  max: number;
+}
+
+/**
+ * Mirror value settings from the project config
+ */
+export interface MirrorOptions {
+  /** First matching range wins */
+  lineHeight: LineHeightRange[];
+  /** Require letter-spacing to tighten as font size grows */
+  letterSpacingTrend: boolean;
+}
+
+/**
+ * Font size, line height and letter spacing sharing one size key
+ */
+interface TypeSize {
+  key: string;
+  fontSize: LintVariable;
+  lineHeight?: LintVariable;
+  letterSpacing?: LintVariable;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const DEFAULT_MIRROR_OPTIONS: MirrorOptions = {
+  lineHeight: [
+    { sizes: /display|heading|title|\d*x+l$/i, min: 1.0, max: 1.3 },
+    { sizes: /.*/, min: 1.3, max: 1.7 },
+  ],
+  letterSpacingTrend: true,
+};
+
+const CATEGORY_PATTERNS = {
+  fontSize: /^font-?size$/i,
+  lineHeight: /^line-?height$/i,
+  letterSpacing: /^letter-?spacing$/i,
+};
+
+/** Line-height values at or below this are unitless multipliers */
+const MAX_UNITLESS_LINE_HEIGHT = 3;
+
+/** Maximum problems listed per check before summarising the rest */
+const MAX_LISTED_PROBLEMS = 20;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+type MirrorCategory = keyof typeof CATEGORY_PATTERNS;
+
+/**
+ * Split a name into its prefix, typography category and size key, e.g.
+ * `typography/font-size/lg` → `typography`, `fontSize`, `lg`
+ */
+function parseTypographyName(name: string): { prefix: string; category: MirrorCategory; key: string } | undefined {
+  const segments = name.split('/');
+  for (let i = 0; i < segments.length - 1; i++) {
+    const category = (Object.keys(CATEGORY_PATTERNS) as MirrorCategory[])
+      .find(c => CATEGORY_PATTERNS[c].test(segments[i]));
+    if (category) {
+      return { prefix: segments.slice(0, i).join('/'), category, key: segments.slice(i + 1).join('/') };
+    }
+  }
+  return undefined;
+}
+
+function formatNumber(value: number, digits = 2): string {
+  return String(Math.round(value * Math.pow(10, digits)) / Math.pow(10, digits));
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check line-height ratios and letter-spacing trends against font sizes.
+ *
+ * @param collections - Variable collections (for modes)
+ * @param variables - Local variables
+ * @param options - Mirror value settings from the project config
+ * @param severities - Optional rule severity overrides from the project config
+ */
+export function validateMirrorValues(
+  collections: LintVariableCollection[],
+  variables: LintVariable[],
+  options: MirrorOptions = DEFAULT_MIRROR_OPTIONS,
+  severities: RuleSeverities = {}
+): AuditCheck[] {
+  const lineHeightSeverity = getRuleSeverity(RULE_IDS.mirrorLineHeight, severities);
+  const trendSeverity = options.letterSpacingTrend
+    ? getRuleSeverity(RULE_IDS.mirrorLetterSpacing, severities)
+    : 'off';
+  const auditChecks: AuditCheck[] = [];
+  const collectionsById = new Map(collections.map(c => [c.id, c]));
+  const variablesById = new Map(variables.map(v => [v.id, v]));
+
+  // Group font sizes with their mirrored line heights and letter spacings
+  const groups = new Map<string, { collection: LintVariableCollection; prefix: string; sizes: Map<string, Partial<TypeSize>> }>();
+  for (const variable of variables) {
+    const collection = collectionsById.get(variable.variableCollectionId);
+    const parsed = parseTypographyName(variable.name);
+    if (!collection || !parsed) continue;
+
+    const groupKey = `${collection.id}\u0000${parsed.prefix}`;
+    const group = groups.get(groupKey) ?? { collection, prefix: parsed.prefix, sizes: new Map() };
+    const size = group.sizes.get(parsed.key) ?? { key: parsed.key };
+    size[parsed.category] = variable;
+    group.sizes.set(parsed.key, size);
+    groups.set(groupKey, group);
+  }
+
+  console.log('🔠 [MIRRORS] Checking typography values in', groups.size, 'groups...');
+  let checkedLineHeights = 0;
+  let checkedTrends = 0;
+
+  for (const { collection, prefix, sizes } of groups.values()) {
+    const typeSizes = Array.from(sizes.values()).filter((s): s is TypeSize => s.fontSize !== undefined);
+    if (typeSizes.length === 0) continue;
+
+    const modes = collection.modes ?? [{ modeId: collection.defaultModeId ?? Object.keys(typeSizes[0].fontSize.valuesByMode)[0], name: '' }];
+    const modeSuffix = (name: string) => (modes.length > 1 ? ` (${name})` : '');
+    const numberIn = (variable: LintVariable | undefined, modeId: string): number | undefined => {
+      if (!variable) return undefined;
+      const value = traceAlias(variable, variablesById, collectionsById, modeId).value;
+      return typeof value === 'number' ? value : undefined;
+    };
+    const groupLabel = `${collection.name}${prefix ? ` / ${prefix}` : ''}`;
+
+    // Line-height ratio, one check per line-height variable
+    if (lineHeightSeverity !== 'off') {
+      for (const size of typeSizes) {
+        if (!size.lineHeight) continue;
+        const range = options.lineHeight.find(r => r.sizes.test(size.key));
+        if (!range) continue;
+        checkedLineHeights++;
+
+        const outliers: string[] = [];
+        for (const mode of modes) {
+          const fontSize = numberIn(size.fontSize, mode.modeId);
+          const lineHeight = numberIn(size.lineHeight, mode.modeId);
+          if (!fontSize || lineHeight === undefined) continue;
+          const unitless = lineHeight <= MAX_UNITLESS_LINE_HEIGHT;
+          const ratio = unitless ? lineHeight : lineHeight / fontSize;
+          if (ratio < range.min - 1e-6 || ratio > range.max + 1e-6) {
+            outliers.push(
+              `  • ${unitless ? formatNumber(lineHeight) : `${formatNumber(lineHeight)} / ${formatNumber(fontSize)}`} = ` +
+              `${formatNumber(ratio)}${modeSuffix(mode.name)}`
+            );
+          }
+        }
+
+        if (outliers.length > 0) {
+          auditChecks.push({
+            ruleId: RULE_IDS.mirrorLineHeight,
+            check: `${groupLabel} — ${size.lineHeight.name} ratio out of range`,
+            status: lineHeightSeverity === 'warning' ? 'warning' : 'fail',
+            suggestion: `Line height / font size should be ${formatNumber(range.min)}–${formatNumber(range.max)} for ${size.key}:\n${outliers.join('\n')}\n\n` +
+              `To fix: Set ${size.lineHeight.name} to between ${formatNumber(range.min)}× and ${formatNumber(range.max)}× ${size.fontSize.name}.`,
+          });
+        }
+      }
+    }
+
+    // Letter-spacing trend, one check per group
+    const spaced = typeSizes.filter((s): s is TypeSize & { letterSpacing: LintVariable } => s.letterSpacing !== undefined);
+    if (trendSeverity !== 'off' && spaced.length > 1) {
+      checkedTrends++;
+      // Problems keyed by text, with the modes they occur in
+      const loosening = new Map<string, string[]>();
+      for (const mode of modes) {
+        const measured = spaced
+          .map(size => ({
+            size,
+            fontSize: numberIn(size.fontSize, mode.modeId),
+            letterSpacing: numberIn(size.letterSpacing, mode.modeId),
+          }))
+          .filter((m): m is { size: typeof spaced[number]; fontSize: number; letterSpacing: number } =>
+            m.fontSize !== undefined && m.fontSize > 0 && m.letterSpacing !== undefined)
+          .sort((a, b) => a.fontSize - b.fontSize);
+
+        for (let i = 1; i < measured.length; i++) {
+          const smaller = measured[i - 1];
+          const larger = measured[i];
+          const smallerEm = smaller.letterSpacing / smaller.fontSize;
+          const largerEm = larger.letterSpacing / larger.fontSize;
+          if (larger.fontSize > smaller.fontSize && largerEm > smallerEm + 1e-4) {
+            const problem =
+              `${larger.size.letterSpacing.name} (${formatNumber(largerEm, 3)}em at ${formatNumber(larger.fontSize)}px) is looser than ` +
+              `${smaller.size.letterSpacing.name} (${formatNumber(smallerEm, 3)}em at ${formatNumber(smaller.fontSize)}px)`;
+            loosening.set(problem, [...(loosening.get(problem) ?? []), mode.name]);
+          }
+        }
+      }
+
+      if (loosening.size > 0) {
+        // Name the modes only when not every mode is affected
+        const lines = Array.from(loosening, ([problem, modeNames]) =>
+          `  • ${problem}${modeNames.length < modes.length ? ` (${modeNames.join(', ')})` : ''}`
+        );
+        auditChecks.push({
+          ruleId: RULE_IDS.mirrorLetterSpacing,
+          check: `${groupLabel} — letter-spacing loosens as size grows`,
+          status: trendSeverity === 'warning' ? 'warning' : 'fail',
+          suggestion: `Larger text should have the same or tighter letter spacing (in em):\n${listLines(lines, MAX_LISTED_PROBLEMS)}\n\n` +
+            `To fix: Reduce letter spacing for the larger sizes.`,
+        });
+      }
+    }
+  }
+
+  const failedRules = new Set(auditChecks.map(check => check.ruleId));
+  if (lineHeightSeverity !== 'off' && checkedLineHeights > 0 && !failedRules.has(RULE_IDS.mirrorLineHeight)) {
+    auditChecks.push({
+      ruleId: RULE_IDS.mirrorLineHeight,
+      check: 'Typography — line-height ratios',
+      status: 'pass',
+      suggestion: `All ${checkedLineHeights} line heights are within range of their font sizes`,
+    });
+  }
+  if (trendSeverity !== 'off' && checkedTrends > 0 && !failedRules.has(RULE_IDS.mirrorLetterSpacing)) {
+    auditChecks.push({
+      ruleId: RULE_IDS.mirrorLetterSpacing,
+      check: 'Typography — letter-spacing trend',
+      status: 'pass',
+      suggestion: 'Letter spacing tightens (or stays the same) as font size grows',
+    });
+  }
+
+  console.log('🔠 [MIRRORS] Complete:', auditChecks.filter(check => check.status !== 'pass').length, 'problems');
+  return auditChecks;
+}
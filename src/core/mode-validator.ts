@@ -0,0 +1,146 @@
+/**
+ * Mode completeness for multi-mode collections.
+ *
+ * Figma lets a variable silently inherit the default mode's value in a mode
+ * it has no value for, and REST responses can omit values altogether. Both
+ * hide gaps in a theme. Two problems are reported, each under its own rule:
+ *
+ *   - missing values   – a variable has no explicit value in one of its
+ *     collection's modes
+ *   - identical values – every mode of a mode-switching collection holds
+ *     the same value, so switching mode changes nothing for that variable
+ *
+ * Values are compared as stored, not resolved: two modes aliasing different
+ * variables count as themed even when those variables happen to match.
+ */
+
+import { AuditCheck } from '../types';
+import type { LintVariable, LintVariableCollection, LintVariableValue } from '../shared/types';
+import { RULE_IDS, RuleSeverities, getRuleSeverity } from './rules';
+import { isVariableAlias, isColorValue, listLines } from './token-resolver';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Maximum variable names listed per check before summarising the rest */
+const MAX_LISTED_VARIABLES = 50;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Stable string form of a stored value, for equality checks
+ */
+function valueKey(value: LintVariableValue): string {
+  if (isVariableAlias(value)) return `alias:${value.id}`;
+  if (isColorValue(value)) {
+    const channel = (n: number) => Math.round(n * 255);
+    return `color:${channel(value.r)},${channel(value.g)},${channel(value.b)},${Math.round((value.a ?? 1) * 100)}`;
+  }
+  return `${typeof value}:${String(value)}`;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check that variables in multi-mode collections are themed in every mode.
+ *
+ * Collections without mode information (e.g. from an older adapter) are
+ * skipped.
+ *
+ * @param collections - Variable collections, with their modes
+ * @param variables - Local variables
+ * @param severities - Optional rule severity overrides from the project config
+ */
+export function validateModeCompleteness(
+  collections: LintVariableCollection[],
+  variables: LintVariable[],
+  severities: RuleSeverities = {}
+): AuditCheck[] {
+  const missingSeverity = getRuleSeverity(RULE_IDS.modeMissingValue, severities);
+  const identicalSeverity = getRuleSeverity(RULE_IDS.modeIdenticalValues, severities);
+  const auditChecks: AuditCheck[] = [];
+  const collectionsById = new Map(collections.map(c => [c.id, c]));
+  const multiMode = collections.filter(c => (c.modes?.length ?? 0) > 1);
+  if (multiMode.length === 0) return auditChecks;
+
+  console.log('🎨 [MODES] Checking', multiMode.length, 'multi-mode collections...');
+  let missingCount = 0;
+  // Identical variables grouped by collection, then category
+  const identical = new Map<string, { collection: LintVariableCollection; category: string; names: string[] }>();
+
+  for (const variable of variables) {
+    const collection = collectionsById.get(variable.variableCollectionId);
+    const modes = collection?.modes;
+    if (!collection || !modes || modes.length < 2) continue;
+
+    const missingModes = modes.filter(mode => variable.valuesByMode[mode.modeId] === undefined);
+    if (missingModes.length > 0 && missingSeverity !== 'off') {
+      missingCount++;
+      const defaultMode = modes.find(mode => mode.modeId === collection.defaultModeId);
+      const missingDefault = missingModes.some(mode => mode.modeId === collection.defaultModeId);
+      auditChecks.push({
+        ruleId: RULE_IDS.modeMissingValue,
+        check: `${variable.name} — missing value in ${missingModes.map(mode => mode.name).join(', ')}`,
+        status: missingSeverity === 'warning' ? 'warning' : 'fail',
+        suggestion: `${collection.name} has ${modes.length} modes, but this variable has no value in ${missingModes.length} of them. ` +
+          (missingDefault || !defaultMode
+            ? `Without a default-mode value there is nothing consistent to fall back to.`
+            : `Figma silently falls back to the ${defaultMode.name} value.`) +
+          `\n\nTo fix: Set an explicit value in every mode.`,
+      });
+    }
+
+    const presentValues = modes
+      .map(mode => variable.valuesByMode[mode.modeId])
+      .filter((value): value is LintVariableValue => value !== undefined);
+    if (presentValues.length > 1 && new Set(presentValues.map(valueKey)).size === 1) {
+      const category = variable.name.split('/')[0];
+      const key = `${collection.id}\u0000${category}`;
+      const group = identical.get(key) ?? { collection, category, names: [] };
+      group.names.push(variable.name);
+      identical.set(key, group);
+    }
+  }
+
+  if (identicalSeverity !== 'off') {
+    for (const { collection, category, names } of identical.values()) {
+      const modeNames = (collection.modes ?? []).map(mode => mode.name).join(', ');
+      auditChecks.push({
+        ruleId: RULE_IDS.modeIdenticalValues,
+        check: `${collection.name} / ${category} — same value in every mode`,
+        status: identicalSeverity === 'warning' ? 'warning' : 'fail',
+        suggestion: `${names.length} variable${names.length !== 1 ? 's have' : ' has'} the same value in ${modeNames}, so switching mode changes nothing:\n` +
+          `${listLines(names.sort((a, b) => a.localeCompare(b)).map(name => `  • ${name}`), MAX_LISTED_VARIABLES)}\n\n` +
+          `To fix: Give each mode its own value, or move mode-independent variables to a single-mode collection.`,
+      });
+    }
+  }
+
+  if (missingCount === 0 && missingSeverity !== 'off') {
+    auditChecks.push({
+      ruleId: RULE_IDS.modeMissingValue,
+      check: 'Variable modes — missing values',
+      status: 'pass',
+      suggestion: 'Every variable in a multi-mode collection has a value in each mode',
+    });
+  }
+  if (identical.size === 0 && identicalSeverity !== 'off') {
+    auditChecks.push({
+      ruleId: RULE_IDS.modeIdenticalValues,
+      check: 'Variable modes — identical values',
+      status: 'pass',
+      suggestion: 'Every variable in a multi-mode collection differs between modes',
+    });
+  }
+
+  console.log('🎨 [MODES] Complete:', {
+    missingValues: missingCount,
+    identicalGroups: identical.size,
+  });
+  return auditChecks;
+}
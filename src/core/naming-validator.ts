@@ -0,0 +1,265 @@
+/**
+ * Variable naming conventions.
+ *
+ * The collection validator checks which categories exist; this checks how
+ * names are spelled. Each `/`-separated segment of a variable name is
+ * checked for:
+ *
+ *   - allowed characters
+ *   - case style (kebab, camel, snake or Pascal)
+ *   - reserved words that clash with token export formats
+ *
+ * plus the number of segments, and names within a collection that differ
+ * only by case or separator (`Font-Size/LG`, `font_size/lg`, `fontSize/lg`).
+ * Every offender is reported with a suggested canonical name where one can
+ * be derived.
+ */
+
+import { AuditCheck } from '../types';
+import type { LintVariable, LintVariableCollection } from '../shared/types';
+import { RULE_IDS, RuleSeverities, getRuleSeverity } from './rules';
+import { listLines } from './token-resolver';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type NamingCase = 'kebab' | 'camel' | 'snake' | 'pascal' | 'any';
+
+export const NAMING_CASES: readonly NamingCase[] = ['kebab', 'camel', 'snake', 'pascal', 'any'];
+
+/**
+ * Naming settings from the project config
+ */
+export interface NamingOptions {
+  /** Case style every segment must follow */
+  case: NamingCase;
+  /** Matched against each whole segment */
+  allowedCharacters: RegExp;
+  /** Maximum number of `/`-separated segments */
+  maxDepth: number;
+  /** Segments that may not be used, compared case-insensitively */
+  reservedWords: string[];
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const DEFAULT_NAMING_OPTIONS: NamingOptions = {
+  case: 'kebab',
+  allowedCharacters: /^[A-Za-z0-9._-]+$/,
+  maxDepth: 5,
+  // Keys that Style Dictionary and the DTCG format treat as token properties
+  reservedWords: ['value', 'type', 'description'],
+};
+
+/** Segment patterns per case style; digits and decimals (`1.5`) fit every style */
+const CASE_PATTERNS: Record<Exclude<NamingCase, 'any'>, RegExp> = {
+  kebab: /^[a-z0-9.]+(?:-[a-z0-9.]+)*$/,
+  camel: /^[a-z0-9.][a-zA-Z0-9.]*$/,
+  snake: /^[a-z0-9.]+(?:_[a-z0-9.]+)*$/,
+  pascal: /^[A-Z0-9.][a-zA-Z0-9.]*$/,
+};
+
+const CASE_LABELS: Record<NamingCase, string> = {
+  kebab: 'kebab-case',
+  camel: 'camelCase',
+  snake: 'snake_case',
+  pascal: 'PascalCase',
+  any: 'any case',
+};
+
+/** Maximum offenders listed per check before summarising the rest */
+const MAX_LISTED_NAMES = 50;
+
+// ============================================================================
+// Name Helpers
+// ============================================================================
+
+/**
+ * Split a segment into lowercase words at separators and camel humps
+ */
+function splitWords(segment: string): string[] {
+  return segment
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9.]+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase());
+}
+
+function formatSegment(words: string[], style: NamingCase): string {
+  const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+  switch (style) {
+    case 'camel':
+      return words.map((word, i) => (i === 0 ? word : capitalize(word))).join('');
+    case 'pascal':
+      return words.map(capitalize).join('');
+    case 'snake':
+      return words.join('_');
+    default:
+      return words.join('-');
+  }
+}
+
+/**
+ * Suggested spelling of a name in the configured case style (kebab-case
+ * when any case is allowed)
+ */
+export function canonicalVariableName(name: string, style: NamingCase): string {
+  return name
+    .split('/')
+    .map(segment => formatSegment(splitWords(segment), style))
+    .join('/');
+}
+
+/**
+ * Key shared by names that differ only by case or separator
+ */
+function duplicateKey(name: string): string {
+  return name
+    .split('/')
+    .map(segment => splitWords(segment).join(''))
+    .join('/');
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check variable names against the naming convention.
+ *
+ * Results are grouped per collection and rule, so a file with hundreds of
+ * camelCase names produces one check per collection rather than one per
+ * variable.
+ *
+ * @param collections - Variable collections
+ * @param variables - Local variables
+ * @param options - Naming settings from the project config
+ * @param severities - Optional rule severity overrides from the project config
+ */
+export function validateVariableNaming(
+  collections: LintVariableCollection[],
+  variables: LintVariable[],
+  options: NamingOptions = DEFAULT_NAMING_OPTIONS,
+  severities: RuleSeverities = {}
+): AuditCheck[] {
+  const auditChecks: AuditCheck[] = [];
+  const style = options.case === 'any' ? 'kebab' : options.case;
+  const reserved = new Set(options.reservedWords.map(word => word.toLowerCase()));
+  const casePattern = options.case === 'any' ? undefined : CASE_PATTERNS[options.case];
+
+  console.log('🔤 [NAMING] Checking', variables.length, 'variable names...');
+
+  const rules = [
+    {
+      ruleId: RULE_IDS.namingCharacters,
+      label: 'disallowed characters',
+      passMessage: 'Every variable name uses only the allowed characters',
+      fix: 'Rename using only the allowed characters.',
+    },
+    {
+      ruleId: RULE_IDS.namingCase,
+      label: `names not ${CASE_LABELS[options.case]}`,
+      passMessage: `Every variable name is ${CASE_LABELS[options.case]}`,
+      fix: `Rename each variable to the suggested ${CASE_LABELS[options.case]} name.`,
+    },
+    {
+      ruleId: RULE_IDS.namingDepth,
+      label: `names deeper than ${options.maxDepth} levels`,
+      passMessage: `Every variable name has at most ${options.maxDepth} levels`,
+      fix: 'Flatten the name, e.g. by merging segments or moving detail into the description.',
+    },
+    {
+      ruleId: RULE_IDS.namingReserved,
+      label: 'reserved words in names',
+      passMessage: 'No variable name uses a reserved word',
+      fix: 'Rename the reserved segment; token exporters read it as a property instead of part of the name.',
+    },
+  ];
+  const duplicateRule = {
+    ruleId: RULE_IDS.namingDuplicate,
+    label: 'names that differ only by case or separator',
+    passMessage: 'No two variables in a collection differ only by case or separator',
+  };
+
+  for (const collection of collections) {
+    const collectionVariables = variables.filter(v => v.variableCollectionId === collection.id);
+    if (collectionVariables.length === 0) continue;
+
+    const offenders = new Map<string, string[]>(rules.map(rule => [rule.ruleId, []]));
+
+    for (const variable of collectionVariables) {
+      const segments = variable.name.split('/');
+      const canonical = canonicalVariableName(variable.name, style);
+      const rename = canonical !== variable.name && canonical !== '' ? ` → ${canonical}` : '';
+
+      const badCharacters = segments.some(segment => !options.allowedCharacters.test(segment));
+      if (badCharacters) {
+        offenders.get(RULE_IDS.namingCharacters)?.push(`  • ${variable.name}${rename}`);
+      } else if (casePattern && segments.some(segment => !casePattern.test(segment))) {
+        // Case is only checked once the characters are valid
+        offenders.get(RULE_IDS.namingCase)?.push(`  • ${variable.name}${rename}`);
+      }
+
+      if (segments.length > options.maxDepth) {
+        offenders.get(RULE_IDS.namingDepth)?.push(`  • ${variable.name} (${segments.length} levels)`);
+      }
+
+      const reservedSegments = segments.filter(segment => reserved.has(segment.toLowerCase()));
+      if (reservedSegments.length > 0) {
+        offenders.get(RULE_IDS.namingReserved)?.push(`  • ${variable.name} (${reservedSegments.map(s => `"${s}"`).join(', ')})`);
+      }
+    }
+
+    for (const rule of rules) {
+      const severity = getRuleSeverity(rule.ruleId, severities);
+      const lines = offenders.get(rule.ruleId) ?? [];
+      if (severity === 'off' || lines.length === 0) continue;
+
+      auditChecks.push({
+        ruleId: rule.ruleId,
+        check: `${collection.name} — ${rule.label}`,
+        status: severity === 'warning' ? 'warning' : 'fail',
+        suggestion: `${lines.length} variable${lines.length !== 1 ? 's' : ''}:\n${listLines(lines.sort((a, b) => a.localeCompare(b)), MAX_LISTED_NAMES)}\n\nTo fix: ${rule.fix}`,
+      });
+    }
+
+    // Names that differ only by case or separator
+    const duplicateSeverity = getRuleSeverity(duplicateRule.ruleId, severities);
+    if (duplicateSeverity !== 'off') {
+      const byKey = new Map<string, string[]>();
+      for (const variable of collectionVariables) {
+        const key = duplicateKey(variable.name);
+        byKey.set(key, [...(byKey.get(key) ?? []), variable.name]);
+      }
+      for (const names of byKey.values()) {
+        if (names.length < 2) continue;
+        const canonical = canonicalVariableName(names[0], style);
+        auditChecks.push({
+          ruleId: duplicateRule.ruleId,
+          check: `${collection.name} / ${canonical} — ${duplicateRule.label}`,
+          status: duplicateSeverity === 'warning' ? 'warning' : 'fail',
+          suggestion: `${names.length} variables look like the same token:\n${names.map(name => `  • ${name}`).join('\n')}\n\n` +
+            `To fix: Merge them into ${canonical} and re-point bindings and aliases at it.`,
+        });
+      }
+    }
+  }
+
+  const failedRules = new Set(auditChecks.map(check => check.ruleId));
+  for (const rule of [...rules, duplicateRule]) {
+    if (failedRules.has(rule.ruleId) || getRuleSeverity(rule.ruleId, severities) === 'off') continue;
+    auditChecks.push({
+      ruleId: rule.ruleId,
+      check: `Variable names — ${rule.label}`,
+      status: 'pass',
+      suggestion: rule.passMessage,
+    });
+  }
+
+  console.log('🔤 [NAMING] Complete:', auditChecks.filter(check => check.status !== 'pass').length, 'problems');
+  return auditChecks;
+}
@@ -0,0 +1,166 @@
+/**
+ * Rule catalogue and severity handling.
+ *
+ * Every `AuditCheck` carries a stable `ruleId` from this catalogue so
+ * checks can be targeted by config, baselines and external reporters
+ * regardless of how their human-readable `check` label is worded.
+ *
+ * Severities are configured per rule in the project config:
+ *
+ *   rules:
+ *     component/raw-effect: warning
+ *     collection/mirror-mismatch: off
+ */
+
+import { AuditCheck } from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Configured severity for a rule */
+export type RuleSeverity = 'off' | 'warning' | 'error';
+
+/** Severity overrides keyed by rule ID */
+export type RuleSeverities = Record<string, RuleSeverity>;
+
+/**
+ * Static description of a rule
+ */
+export interface RuleDefinition {
+  /** Stable identifier, e.g. `component/raw-fill` */
+  id: string;
+  /** One-line description used in reports and rule descriptors */
+  description: string;
+  /** Severity used when the config does not override it */
+  defaultSeverity: Exclude<RuleSeverity, 'off'>;
+}
+
+export const RULE_SEVERITIES: readonly RuleSeverity[] = ['off', 'warning', 'error'];
+
+// ============================================================================
+// Rule Catalogue
+// ============================================================================
+
+export const RULES: Record<string, RuleDefinition> = {};
+
+function defineRule(id: string, description: string, defaultSeverity: RuleDefinition['defaultSeverity'] = 'error'): string {
+  RULES[id] = { id, description, defaultSeverity };
+  return id;
+}
+
+/** Rule IDs, grouped by the validator that emits them */
+export const RULE_IDS = {
+  // Collection structure
+  missingCollection: defineRule('collection/missing-collection', 'A required variable collection does not exist'),
+  collectionStructure: defineRule('collection/structure', 'Variable collections have the required structure'),
+  missingCategory: defineRule('collection/missing-category', 'A collection is missing a required top-level category'),
+  missingSubCategory: defineRule('collection/missing-subcategory', 'A category is missing a required sub-category'),
+  subCategoryNaming: defineRule('collection/subcategory-naming', 'Sub-categories follow the configured naming pattern'),
+  mirrorMismatch: defineRule('collection/mirror-mismatch', 'A category does not mirror the sizes of its source category'),
+  mirrorLineHeight: defineRule('collection/line-height-ratio', 'Line height / font size ratios lie within the configured range', 'warning'),
+  mirrorLetterSpacing: defineRule('collection/letter-spacing-trend', 'Letter spacing tightens (or stays the same) as font size grows', 'warning'),
+
+  // Text styles
+  fontFamilySync: defineRule('text-style/font-family-sync', 'Font-family variables and text styles are in sync'),
+  textStyleUnbound: defineRule('text-style/unbound-property', 'Text style typography properties are bound to variables'),
+  textStyleBindingName: defineRule('text-style/binding-name-mismatch', 'Text style bindings use variables matching the style size'),
+
+  // Component bindings
+  componentBindings: defineRule('component/variable-bindings', 'Components use variables for all visual properties'),
+  rawFill: defineRule('component/raw-fill', 'Component fill colour is hard-coded'),
+  imageFill: defineRule('component/image-fill', 'Component contains an image fill', 'warning'),
+  rawStroke: defineRule('component/raw-stroke', 'Component stroke colour is hard-coded'),
+  rawSpacing: defineRule('component/raw-spacing', 'Component padding or gap is hard-coded'),
+  rawRadius: defineRule('component/raw-radius', 'Component corner radius is hard-coded'),
+  rawStrokeWeight: defineRule('component/raw-stroke-weight', 'Component stroke weight is hard-coded', 'warning'),
+  rawOpacity: defineRule('component/raw-opacity', 'Component layer opacity is hard-coded', 'warning'),
+  rawSizing: defineRule('component/raw-sizing', 'Component min/max width or height is hard-coded', 'warning'),
+  rawTypography: defineRule('component/raw-typography', 'Component text typography is hard-coded'),
+  rawEffect: defineRule('component/raw-effect', 'Component effect is hard-coded'),
+  semanticRole: defineRule('component/semantic-role', 'Components bind variables only to the properties their role allows', 'warning'),
+  textStyle: defineRule('component/text-style', 'Component text uses a text style or typography variables', 'warning'),
+  foreignTextStyle: defineRule('component/foreign-text-style', 'Component text styles come from the audited library', 'warning'),
+
+  // Alias graph
+  aliasBroken: defineRule('alias/broken-reference', 'An alias points at a variable that does not exist locally', 'warning'),
+  aliasCycle: defineRule('alias/cycle', 'An alias chain loops back on itself', 'warning'),
+  aliasDepth: defineRule('alias/max-depth', 'An alias chain is deeper than the configured limit', 'warning'),
+  aliasTypeMismatch: defineRule('alias/type-mismatch', 'A variable resolves to different types in different modes', 'warning'),
+
+  // Duplicate values
+  duplicateValue: defineRule('duplicate/value', 'Variables in a collection resolve to the same value in every mode', 'warning'),
+  duplicateAlias: defineRule('duplicate/alias', 'Variables in a collection alias the same variables in every mode (merge candidates)', 'warning'),
+
+  // Variable naming
+  namingCase: defineRule('naming/case', 'Variable name segments follow the configured case style', 'warning'),
+  namingCharacters: defineRule('naming/characters', 'Variable names use only the allowed characters', 'warning'),
+  namingDepth: defineRule('naming/max-depth', 'Variable names have at most the configured number of levels', 'warning'),
+  namingReserved: defineRule('naming/reserved-word', 'Variable names avoid reserved words', 'warning'),
+  namingDuplicate: defineRule('naming/duplicate', 'No two variables in a collection differ only by case or separator', 'warning'),
+
+  // Scales
+  scaleGrid: defineRule('scale/grid', 'Scale values are multiples of the configured grid', 'warning'),
+  scaleRatio: defineRule('scale/modular-ratio', 'Consecutive scale values grow by the configured ratio', 'warning'),
+  scaleOrder: defineRule('scale/order', 'Larger t-shirt sizes have larger values in every mode', 'warning'),
+  scaleGap: defineRule('scale/sequence-gap', 'T-shirt size sequences have no missing steps', 'warning'),
+
+  // Variable modes
+  modeMissingValue: defineRule('mode/missing-value', 'A variable in a multi-mode collection has a value in every mode', 'warning'),
+  modeIdenticalValues: defineRule('mode/identical-values', 'A variable in a multi-mode collection differs between modes', 'warning'),
+
+  // Token tiers
+  tierComponentBinding: defineRule('tier/component-binding', 'Components bind variables from the top tier only', 'warning'),
+  tierRawValue: defineRule('tier/raw-value', 'Top-tier variables alias a lower tier instead of holding raw values', 'warning'),
+  tierAliasOrder: defineRule('tier/alias-order', 'Aliases point down the tier order without skipping a tier', 'warning'),
+
+  // Variable usage
+  unusedVariable: defineRule('variable/unused', 'A variable is not referenced by any layer, text style or used variable', 'warning'),
+
+  // Contrast
+  contrastAA: defineRule('contrast/text-aa', 'Component text meets WCAG AA contrast against its background', 'warning'),
+  contrastAAA: defineRule('contrast/text-aaa', 'Component text meets WCAG AAA contrast against its background', 'warning'),
+  contrastModePair: defineRule('contrast/mode-pair', 'Configured colour pairs meet their contrast level in every mode'),
+  contrastPairConfig: defineRule('contrast/pair-config', 'Configured colour pairs match colour variables that can be checked', 'warning'),
+} as const;
+
+// ============================================================================
+// Severity Helpers
+// ============================================================================
+
+/**
+ * Resolve the effective severity of a rule.
+ */
+export function getRuleSeverity(ruleId: string, severities: RuleSeverities = {}): RuleSeverity {
+  return severities[ruleId] ?? RULES[ruleId]?.defaultSeverity ?? 'error';
+}
+
+/**
+ * Apply configured severities to a list of checks.
+ *
+ *   - `off`     – every check for the rule is removed (including passes)
+ *   - `warning` – failing checks are reported as warnings
+ *   - `error`   – failing checks (and warnings) are reported as failures
+ *
+ * Rules without an override keep the status their validator emitted.
+ * The function is idempotent, so already-processed checks can be passed
+ * through it again safely.
+ */
+export function applyRuleSeverities(checks: AuditCheck[], severities: RuleSeverities = {}): AuditCheck[] {
+  const result: AuditCheck[] = [];
+
+  for (const check of checks) {
+    const override = severities[check.ruleId];
+    if (override === 'off') continue;
+
+    if (!override || check.status === 'pass') {
+      result.push(check);
+      continue;
+    }
+
+    const status = override === 'warning' ? 'warning' : 'fail';
+    result.push(status === check.status ? check : { ...check, status });
+  }
+
+  return result;
+}
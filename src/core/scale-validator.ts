@@ -0,0 +1,334 @@
+/**
+ * Value-level scale rules for numeric token groups.
+ *
+ * `subCategoryPattern` only checks that sizes are named in t-shirt style;
+ * this checks the values behind the names. A scale group is the set of
+ * variables sharing a parent path (`font-size/sm`, `font-size/md`, … form
+ * the `font-size` group) in one collection, matched to a rule by category.
+ * Each rule can enforce:
+ *
+ *   - grid          – every value is a multiple of the grid (e.g. 4pt)
+ *   - modular ratio – consecutive distinct values grow by the configured
+ *     ratio, within a relative tolerance
+ *   - ordering      – t-shirt sizes increase with size in every mode
+ *     (`font-size/lg` > `font-size/md`)
+ *   - no gaps       – the t-shirt sequence has no missing steps (`xl`
+ *     present but `lg` missing)
+ *
+ * Values are resolved through aliases in each mode of the collection.
+ */
+
+import { AuditCheck } from '../types';
+import type { LintVariable, LintVariableCollection } from '../shared/types';
+import { RULE_IDS, RuleSeverities, getRuleSeverity } from './rules';
+import { traceAlias, listLines } from './token-resolver';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Scale rules for one category of numeric variables
+ */
+export interface ScaleRule {
+  /** Matched against the segments above the size name, e.g. `font-size` */
+  category: RegExp;
+  /** Every value must be a multiple of this */
+  grid?: number;
+  /** Ratio between consecutive distinct values */
+  ratio?: number;
+  /** Allowed relative deviation from `ratio` (0.1 = ±10%) */
+  tolerance: number;
+  /** T-shirt sizes must increase with size in every mode */
+  ordered: boolean;
+  /** T-shirt sizes must have no missing steps */
+  noGaps: boolean;
+}
+
+/**
+ * One numeric variable in a scale group, resolved in one mode
+ */
+interface ScaleEntry {
+  variableName: string;
+  /** Last name segment, e.g. `lg` */
+  step: string;
+  /** Position in the t-shirt sequence (md = 0), if the step is a t-shirt size */
+  rank?: number;
+  value: number;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const DEFAULT_SCALE_RULES: ScaleRule[] = [
+  {
+    category: /^spac(e|ing)$/i,
+    grid: 4,
+    tolerance: 0.1,
+    ordered: true,
+    noGaps: true,
+  },
+  {
+    category: /^(border-|corner-)?radi(us|i)$/i,
+    tolerance: 0.1,
+    ordered: true,
+    noGaps: true,
+  },
+  {
+    category: /^font-?size$/i,
+    ratio: 1.25,
+    tolerance: 0.1,
+    ordered: true,
+    noGaps: true,
+  },
+];
+
+const TSHIRT_PATTERN = /^(\d+)?(x*)(xs|sm|md|lg|xl)$/i;
+
+const TSHIRT_BASE_RANKS: Record<string, number> = { xs: -2, sm: -1, md: 0, lg: 1, xl: 2 };
+
+/** Maximum problems listed per check before summarising the rest */
+const MAX_LISTED_PROBLEMS = 20;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Position of a t-shirt size in the sequence: md = 0, lg = 1, xl = 2,
+ * 2xl/xxl = 3, … and sm = -1, xs = -2, 2xs/xxs = -3, …
+ */
+export function tshirtRank(step: string): number | undefined {
+  const match = TSHIRT_PATTERN.exec(step);
+  if (!match) return undefined;
+  const [, digits, xs, size] = match;
+  const base = TSHIRT_BASE_RANKS[size.toLowerCase()];
+  const multiplier = digits ? parseInt(digits, 10) : xs.length + 1;
+  if (size.toLowerCase() !== 'xs' && size.toLowerCase() !== 'xl') {
+    // Only xs and xl take a multiplier
+    return digits || xs ? undefined : base;
+  }
+  return base + Math.sign(base) * (multiplier - 1);
+}
+
+/**
+ * Canonical name for a rank (the inverse of `tshirtRank`)
+ */
+function tshirtName(rank: number): string {
+  if (rank >= -1 && rank <= 1) return ['sm', 'md', 'lg'][rank + 1];
+  const size = rank < 0 ? 'xs' : 'xl';
+  const multiplier = Math.abs(rank) - 1;
+  return multiplier > 1 ? `${multiplier}${size}` : size;
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Record the modes a problem was found in
+ */
+function addModeProblems(modesByProblem: Map<string, string[]>, problems: string[], modeName: string): void {
+  for (const problem of problems) {
+    modesByProblem.set(problem, [...(modesByProblem.get(problem) ?? []), modeName]);
+  }
+}
+
+/**
+ * List problems once each, naming the modes only when not all are affected
+ */
+function formatModeProblems(modesByProblem: Map<string, string[]>, modeCount: number): string[] {
+  return Array.from(modesByProblem, ([problem, modes]) =>
+    `  • ${problem}${modes.length < modeCount ? ` (${modes.join(', ')})` : ''}`
+  );
+}
+
+function checkGrid(entries: ScaleEntry[], grid: number): string[] {
+  return entries
+    .filter(entry => Math.abs(entry.value / grid - Math.round(entry.value / grid)) > 1e-6)
+    .map(entry => `${entry.variableName}: ${formatNumber(entry.value)}`);
+}
+
+function checkRatio(entries: ScaleEntry[], ratio: number, tolerance: number): string[] {
+  const values = Array.from(new Set(entries.map(e => e.value).filter(v => v > 0))).sort((a, b) => a - b);
+  const problems: string[] = [];
+  for (let i = 1; i < values.length; i++) {
+    const actual = values[i] / values[i - 1];
+    if (Math.abs(actual - ratio) / ratio > tolerance) {
+      const lower = entries.find(e => e.value === values[i - 1])?.variableName;
+      const upper = entries.find(e => e.value === values[i])?.variableName;
+      problems.push(`${lower} → ${upper}: ${formatNumber(values[i - 1])} → ${formatNumber(values[i])} (×${actual.toFixed(2)})`);
+    }
+  }
+  return problems;
+}
+
+function checkOrder(entries: ScaleEntry[]): string[] {
+  const ranked = entries
+    .filter((entry): entry is ScaleEntry & { rank: number } => entry.rank !== undefined)
+    .sort((a, b) => a.rank - b.rank);
+  const problems: string[] = [];
+  for (let i = 1; i < ranked.length; i++) {
+    if (ranked[i].rank !== ranked[i - 1].rank && ranked[i].value <= ranked[i - 1].value) {
+      problems.push(
+        `${ranked[i].variableName} (${formatNumber(ranked[i].value)}) is not larger than ` +
+        `${ranked[i - 1].variableName} (${formatNumber(ranked[i - 1].value)})`
+      );
+    }
+  }
+  return problems;
+}
+
+/**
+ * Missing t-shirt steps between the smallest and largest size present
+ */
+function checkGaps(entries: ScaleEntry[]): { missing: string[]; from: string; to: string } {
+  const ranks = new Set(entries.map(e => e.rank).filter((rank): rank is number => rank !== undefined));
+  if (ranks.size < 2) return { missing: [], from: '', to: '' };
+  const min = Math.min(...ranks);
+  const max = Math.max(...ranks);
+  const missing: string[] = [];
+  for (let rank = min + 1; rank < max; rank++) {
+    if (!ranks.has(rank)) missing.push(tshirtName(rank));
+  }
+  return { missing, from: tshirtName(min), to: tshirtName(max) };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check numeric variable groups against their scale rules.
+ *
+ * @param collections - Variable collections (for modes)
+ * @param variables - Local variables
+ * @param rules - Scale rules from the project config
+ * @param severities - Optional rule severity overrides from the project config
+ */
+export function validateScales(
+  collections: LintVariableCollection[],
+  variables: LintVariable[],
+  rules: ScaleRule[] = DEFAULT_SCALE_RULES,
+  severities: RuleSeverities = {}
+): AuditCheck[] {
+  const auditChecks: AuditCheck[] = [];
+  const collectionsById = new Map(collections.map(c => [c.id, c]));
+  const variablesById = new Map(variables.map(v => [v.id, v]));
+  const gridSeverity = getRuleSeverity(RULE_IDS.scaleGrid, severities);
+  const ratioSeverity = getRuleSeverity(RULE_IDS.scaleRatio, severities);
+  const orderSeverity = getRuleSeverity(RULE_IDS.scaleOrder, severities);
+  const gapSeverity = getRuleSeverity(RULE_IDS.scaleGap, severities);
+  const checkedRules = new Set<string>();
+
+  // Group variables by collection and parent path
+  const groups = new Map<string, { collection: LintVariableCollection; path: string; rule: ScaleRule; variables: LintVariable[] }>();
+  for (const variable of variables) {
+    const collection = collectionsById.get(variable.variableCollectionId);
+    const segments = variable.name.split('/');
+    if (!collection || segments.length < 2) continue;
+    const parents = segments.slice(0, -1);
+    const rule = rules.find(r => parents.some(segment => r.category.test(segment)));
+    if (!rule) continue;
+
+    const path = parents.join('/');
+    const key = `${collection.id}\u0000${path}`;
+    const group = groups.get(key) ?? { collection, path, rule, variables: [] };
+    group.variables.push(variable);
+    groups.set(key, group);
+  }
+
+  console.log('📏 [SCALES] Checking', groups.size, 'scale groups...');
+
+  for (const { collection, path, rule, variables: groupVariables } of groups.values()) {
+    const modes = collection.modes ?? [{ modeId: collection.defaultModeId ?? Object.keys(groupVariables[0].valuesByMode)[0], name: '' }];
+    const label = `${collection.name} / ${path}`;
+    const gridProblems = new Map<string, string[]>();
+    const ratioProblems = new Map<string, string[]>();
+    const orderProblems = new Map<string, string[]>();
+    let gapEntries: ScaleEntry[] = [];
+
+    for (const mode of modes) {
+      const entries: ScaleEntry[] = [];
+      for (const variable of groupVariables) {
+        const value = traceAlias(variable, variablesById, collectionsById, mode.modeId).value;
+        if (typeof value !== 'number') continue;
+        const step = variable.name.split('/').pop() as string;
+        entries.push({ variableName: variable.name, step, rank: tshirtRank(step), value });
+      }
+      if (entries.length === 0) continue;
+
+      if (rule.grid && gridSeverity !== 'off') addModeProblems(gridProblems, checkGrid(entries, rule.grid), mode.name);
+      if (rule.ratio && ratioSeverity !== 'off') addModeProblems(ratioProblems, checkRatio(entries, rule.ratio, rule.tolerance), mode.name);
+      if (rule.ordered && orderSeverity !== 'off') addModeProblems(orderProblems, checkOrder(entries), mode.name);
+      if (entries.length > gapEntries.length) gapEntries = entries;
+    }
+    const gaps = rule.noGaps && gapSeverity !== 'off' ? checkGaps(gapEntries) : undefined;
+
+    if (rule.grid) checkedRules.add(RULE_IDS.scaleGrid);
+    if (rule.ratio) checkedRules.add(RULE_IDS.scaleRatio);
+    if (rule.ordered) checkedRules.add(RULE_IDS.scaleOrder);
+    if (rule.noGaps) checkedRules.add(RULE_IDS.scaleGap);
+
+    const gridLines = formatModeProblems(gridProblems, modes.length);
+    const ratioLines = formatModeProblems(ratioProblems, modes.length);
+    const orderLines = formatModeProblems(orderProblems, modes.length);
+
+    if (gridLines.length > 0) {
+      auditChecks.push({
+        ruleId: RULE_IDS.scaleGrid,
+        check: `${label} — off the ${rule.grid}pt grid`,
+        status: gridSeverity === 'warning' ? 'warning' : 'fail',
+        suggestion: `${gridLines.length} value${gridLines.length !== 1 ? 's are' : ' is'} not a multiple of ${rule.grid}:\n${listLines(gridLines, MAX_LISTED_PROBLEMS)}\n\n` +
+          `To fix: Round each value to the nearest multiple of ${rule.grid}.`,
+      });
+    }
+    if (ratioLines.length > 0) {
+      auditChecks.push({
+        ruleId: RULE_IDS.scaleRatio,
+        check: `${label} — off the ×${rule.ratio} scale`,
+        status: ratioSeverity === 'warning' ? 'warning' : 'fail',
+        suggestion: `Consecutive sizes should grow by ×${rule.ratio} (±${Math.round(rule.tolerance * 100)}%):\n${listLines(ratioLines, MAX_LISTED_PROBLEMS)}\n\n` +
+          `To fix: Derive each size from the previous one using the scale ratio.`,
+      });
+    }
+    if (orderLines.length > 0) {
+      auditChecks.push({
+        ruleId: RULE_IDS.scaleOrder,
+        check: `${label} — sizes out of order`,
+        status: orderSeverity === 'warning' ? 'warning' : 'fail',
+        suggestion: `Larger t-shirt sizes must have larger values:\n${listLines(orderLines, MAX_LISTED_PROBLEMS)}\n\n` +
+          `To fix: Swap or adjust the values so each size is larger than the one before it.`,
+      });
+    }
+    if (gaps && gaps.missing.length > 0) {
+      auditChecks.push({
+        ruleId: RULE_IDS.scaleGap,
+        check: `${label} — gaps in size sequence`,
+        status: gapSeverity === 'warning' ? 'warning' : 'fail',
+        suggestion: `Missing ${gaps.missing.join(', ')} between ${gaps.from} and ${gaps.to}.\n\n` +
+          `To fix: Add the missing sizes, or rename the existing ones to close the gap.`,
+      });
+    }
+  }
+
+  const passMessages: Array<{ ruleId: string; severity: string; label: string; message: string }> = [
+    { ruleId: RULE_IDS.scaleGrid, severity: gridSeverity, label: 'grid', message: 'Every value is on its grid' },
+    { ruleId: RULE_IDS.scaleRatio, severity: ratioSeverity, label: 'modular ratio', message: 'Every size follows its scale ratio' },
+    { ruleId: RULE_IDS.scaleOrder, severity: orderSeverity, label: 'ordering', message: 'Larger sizes have larger values in every mode' },
+    { ruleId: RULE_IDS.scaleGap, severity: gapSeverity, label: 'size sequence', message: 'No size sequence has missing steps' },
+  ];
+  const failedRules = new Set(auditChecks.map(check => check.ruleId));
+  for (const { ruleId, severity, label, message } of passMessages) {
+    if (severity === 'off' || !checkedRules.has(ruleId) || failedRules.has(ruleId)) continue;
+    auditChecks.push({ ruleId, check: `Scales — ${label}`, status: 'pass', suggestion: message });
+  }
+
+  console.log('📏 [SCALES] Complete:', auditChecks.filter(check => check.status !== 'pass').length, 'problems');
+  return auditChecks;
+}
@@ -0,0 +1,304 @@
+/**
+ * Token tier enforcement.
+ *
+ * Collections are assigned to tiers by name, lowest first (by default
+ * Primitives → Brand → Theme). The architecture this enforces:
+ *
+ *   - components bind variables from the top tier only
+ *   - top-tier variables alias a lower tier instead of holding raw
+ *     values (intermediate tiers such as Brand may hold raw brand colours)
+ *   - aliases point down the tier order without skipping a tier that
+ *     exists in the file (Theme may alias Primitives when there is no
+ *     Brand collection)
+ *
+ * Collections that match no tier, and bindings to variables that are not
+ * local (e.g. from a library), are ignored.
+ */
+
+import { AuditCheck, AuditRawValue } from '../types';
+import type {
+  LintVariable,
+  LintVariableCollection,
+  LintNode,
+  LintComponent,
+  LintBoundVariable,
+} from '../shared/types';
+import { RULE_IDS, RuleSeverities, getRuleSeverity } from './rules';
+import { isVariableAlias, listLines, modeName } from './token-resolver';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A tier and the collections that belong to it
+ */
+export interface TierDefinition {
+  name: string;
+  /** Matched against collection names */
+  collectionPattern: RegExp;
+}
+
+/**
+ * Tier settings from the project config
+ */
+export interface TierOptions {
+  /** Tiers from lowest (primitives) to highest (what components bind) */
+  order: TierDefinition[];
+  /** Allow aliases to skip a tier that exists in the file */
+  allowSkip: boolean;
+}
+
+/**
+ * A component binding to a variable outside the top tier
+ */
+export interface TierBindingViolation {
+  nodeId: string;
+  nodeName: string;
+  property: string;
+  variableName: string;
+  tierName: string;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const DEFAULT_TIER_OPTIONS: TierOptions = {
+  order: [
+    { name: 'Primitives', collectionPattern: /primitives?/i },
+    { name: 'Brand', collectionPattern: /brand/i },
+    { name: 'Theme', collectionPattern: /theme|semantic/i },
+  ],
+  allowSkip: false,
+};
+
+/** Maximum violations listed per check before summarising the rest */
+const MAX_LISTED_VIOLATIONS = 10;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Tier index of each collection that matches a tier
+ */
+function assignTiers(collections: LintVariableCollection[], options: TierOptions): Map<string, number> {
+  const tierByCollection = new Map<string, number>();
+  for (const collection of collections) {
+    const index = options.order.findIndex(tier => tier.collectionPattern.test(collection.name));
+    if (index !== -1) tierByCollection.set(collection.id, index);
+  }
+  return tierByCollection;
+}
+
+/**
+ * Every variable binding on a node, as property/variable ID pairs
+ */
+function getBindings(node: LintNode): Array<{ property: string; id: string }> {
+  const bindings: Array<{ property: string; id: string }> = [];
+  for (const [property, binding] of Object.entries(node.boundVariables || {})) {
+    const list: Array<LintBoundVariable | undefined> = Array.isArray(binding) ? binding : [binding];
+    list.forEach((b, index) => {
+      if (b?.id) bindings.push({ property: Array.isArray(binding) && list.length > 1 ? `${property}[${index}]` : property, id: b.id });
+    });
+  }
+  return bindings;
+}
+
+function collectNodes(node: LintNode, nodes: LintNode[] = []): LintNode[] {
+  nodes.push(node);
+  for (const child of node.children ?? []) collectNodes(child, nodes);
+  return nodes;
+}
+
+// ============================================================================
+// Component Bindings
+// ============================================================================
+
+/**
+ * Flag components that bind variables from below the top tier.
+ *
+ * @param components - Components discovered by the adapter, annotated with page name
+ * @param collections - Variable collections (assigned to tiers by name)
+ * @param variables - Local variables
+ * @param options - Tier settings from the project config
+ * @param severities - Optional rule severity overrides from the project config
+ * @returns One check per component with violations
+ */
+export function validateComponentTiers(
+  components: LintComponent[],
+  collections: LintVariableCollection[],
+  variables: LintVariable[],
+  options: TierOptions = DEFAULT_TIER_OPTIONS,
+  severities: RuleSeverities = {}
+): AuditCheck[] {
+  const severity = getRuleSeverity(RULE_IDS.tierComponentBinding, severities);
+  if (severity === 'off' || options.order.length < 2) return [];
+
+  const tierByCollection = assignTiers(collections, options);
+  const variablesById = new Map(variables.map(v => [v.id, v]));
+  const topTier = options.order.length - 1;
+  const topTierName = options.order[topTier].name;
+  const auditChecks: AuditCheck[] = [];
+
+  for (const component of components) {
+    const violations: TierBindingViolation[] = [];
+
+    for (const node of collectNodes(component.node)) {
+      for (const { property, id } of getBindings(node)) {
+        const variable = variablesById.get(id);
+        const tier = variable ? tierByCollection.get(variable.variableCollectionId) : undefined;
+        if (variable && tier !== undefined && tier < topTier) {
+          violations.push({
+            nodeId: node.id,
+            nodeName: node.name,
+            property,
+            variableName: variable.name,
+            tierName: options.order[tier].name,
+          });
+        }
+      }
+    }
+
+    if (violations.length === 0) continue;
+
+    const rawValues: AuditRawValue[] = violations.map(v => ({
+      nodeId: v.nodeId,
+      nodeName: v.nodeName,
+      property: v.property,
+      value: `${v.variableName} (${v.tierName})`,
+    }));
+    const lines = violations.map(v => `  • ${v.nodeName}: ${v.property} → ${v.variableName} (${v.tierName})`);
+
+    auditChecks.push({
+      ruleId: RULE_IDS.tierComponentBinding,
+      check: `${component.node.name} — bindings below ${topTierName}`,
+      status: severity === 'warning' ? 'warning' : 'fail',
+      suggestion: `${violations.length} binding${violations.length !== 1 ? 's skip' : ' skips'} the ${topTierName} tier:\n${listLines(lines, MAX_LISTED_VIOLATIONS)}\n\n` +
+        `To fix: Bind these properties to ${topTierName} variables that alias the same values.`,
+      pageName: component.pageName,
+      nodeId: component.node.id,
+      rawValues,
+    });
+  }
+
+  return auditChecks;
+}
+
+// ============================================================================
+// Variable Tiers
+// ============================================================================
+
+/**
+ * Check that top-tier variables alias a lower tier and that aliases follow
+ * the tier order. Raw values are grouped into one check per collection.
+ *
+ * @param collections - Variable collections (assigned to tiers by name)
+ * @param variables - Local variables
+ * @param options - Tier settings from the project config
+ * @param severities - Optional rule severity overrides from the project config
+ */
+export function validateVariableTiers(
+  collections: LintVariableCollection[],
+  variables: LintVariable[],
+  options: TierOptions = DEFAULT_TIER_OPTIONS,
+  severities: RuleSeverities = {}
+): AuditCheck[] {
+  const auditChecks: AuditCheck[] = [];
+  if (options.order.length < 2) return auditChecks;
+
+  const tierByCollection = assignTiers(collections, options);
+  const collectionsById = new Map(collections.map(c => [c.id, c]));
+  const variablesById = new Map(variables.map(v => [v.id, v]));
+  const presentTiers = new Set(tierByCollection.values());
+  const rawSeverity = getRuleSeverity(RULE_IDS.tierRawValue, severities);
+  const orderSeverity = getRuleSeverity(RULE_IDS.tierAliasOrder, severities);
+  const topTier = options.order.length - 1;
+  const rawByCollection = new Map<string, string[]>();
+  let orderCount = 0;
+
+  for (const variable of variables) {
+    const tier = tierByCollection.get(variable.variableCollectionId);
+    if (tier === undefined || tier === 0) continue;
+
+    const collection = collectionsById.get(variable.variableCollectionId);
+    const rawModes: string[] = [];
+    const orderProblems: string[] = [];
+
+    for (const [modeId, value] of Object.entries(variable.valuesByMode)) {
+      const mode = modeName(collection, modeId);
+      if (!isVariableAlias(value)) {
+        rawModes.push(mode);
+        continue;
+      }
+
+      // Broken aliases are reported by the alias graph validator
+      const target = variablesById.get(value.id);
+      const targetTier = target ? tierByCollection.get(target.variableCollectionId) : undefined;
+      if (!target || targetTier === undefined || targetTier === tier) continue;
+
+      if (targetTier > tier) {
+        orderProblems.push(`${mode}: aliases ${target.name} in the higher ${options.order[targetTier].name} tier`);
+      } else if (!options.allowSkip) {
+        const skipped = options.order
+          .slice(targetTier + 1, tier)
+          .filter((_, i) => presentTiers.has(targetTier + 1 + i))
+          .map(t => t.name);
+        if (skipped.length > 0) {
+          orderProblems.push(`${mode}: aliases ${target.name} (${options.order[targetTier].name}), skipping ${skipped.join(', ')}`);
+        }
+      }
+    }
+
+    if (tier === topTier && rawModes.length > 0) {
+      const lines = rawByCollection.get(variable.variableCollectionId) ?? [];
+      lines.push(`  • ${variable.name} (${rawModes.join(', ')})`);
+      rawByCollection.set(variable.variableCollectionId, lines);
+    }
+
+    if (orderProblems.length > 0 && orderSeverity !== 'off') {
+      orderCount++;
+      auditChecks.push({
+        ruleId: RULE_IDS.tierAliasOrder,
+        check: `${variable.name} — alias breaks tier order`,
+        status: orderSeverity === 'warning' ? 'warning' : 'fail',
+        suggestion: `${orderProblems.map(p => `  • ${p}`).join('\n')}\n\n` +
+          `To fix: Alias the variable in the next tier down (tier order: ${options.order.map(t => t.name).join(' → ')}).`,
+      });
+    }
+  }
+
+  if (rawSeverity !== 'off') {
+    const topTierName = options.order[topTier].name;
+    for (const [collectionId, lines] of rawByCollection) {
+      auditChecks.push({
+        ruleId: RULE_IDS.tierRawValue,
+        check: `${collectionsById.get(collectionId)?.name ?? topTierName} — raw values instead of aliases`,
+        status: rawSeverity === 'warning' ? 'warning' : 'fail',
+        suggestion: `${lines.length} variable${lines.length !== 1 ? 's hold' : ' holds'} a raw value instead of aliasing a lower tier:\n` +
+          `${listLines(lines.sort((a, b) => a.localeCompare(b)), MAX_LISTED_VIOLATIONS)}\n\n` +
+          `To fix: Alias a ${options.order.slice(0, topTier).map(t => t.name).join(' or ')} variable with the same value.`,
+      });
+    }
+    if (rawByCollection.size === 0) {
+      auditChecks.push({
+        ruleId: RULE_IDS.tierRawValue,
+        check: 'Token tiers — raw values',
+        status: 'pass',
+        suggestion: `Every ${topTierName} variable aliases a lower tier`,
+      });
+    }
+  }
+  if (orderCount === 0 && orderSeverity !== 'off') {
+    auditChecks.push({
+      ruleId: RULE_IDS.tierAliasOrder,
+      check: 'Token tiers — alias order',
+      status: 'pass',
+      suggestion: `Aliases follow the tier order (${options.order.map(t => t.name).join(' → ')})`,
+    });
+  }
+
+  console.log('🏗️ [TIERS] Variable tiers checked:', { rawValueCollections: rawByCollection.size, aliasOrder: orderCount });
+  return auditChecks;
+}
@@ -0,0 +1,375 @@
+/**
+ * Variable value resolution and nearest-token lookup.
+ *
+ * Resolves every variable to a concrete value in its collection's default
+ * mode (following alias chains across collections), then finds the
+ * variable closest to a hard-coded value found in a component:
+ *
+ *   - exact matches first
+ *   - colours by perceptual distance (CIE76 ΔE in CIELAB)
+ *   - numbers by absolute difference, among variables whose name matches
+ *     the property (spacing, radius, font-size, ...)
+ *
+ * Works on the platform-neutral types so both the plugin and the CLI can
+ * use it.
+ */
+
+import type {
+  LintVariable,
+  LintVariableCollection,
+  LintVariableValue,
+  LintVariableAlias,
+  LintRGBA,
+} from '../shared/types';
+import type { TokenSuggestion } from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A concrete (non-alias) variable value */
+export type ResolvedValue = string | number | boolean | LintRGBA;
+
+/**
+ * A variable together with its default-mode value after alias resolution
+ */
+export interface ResolvedVariable {
+  id: string;
+  name: string;
+  collectionId: string;
+  collectionName: string;
+  value: ResolvedValue;
+}
+
+/** Kind of raw value a token is suggested for */
+export type TokenKind =
+  | 'color'
+  | 'spacing'
+  | 'radius'
+  | 'strokeWeight'
+  | 'opacity'
+  | 'sizing'
+  | 'fontFamily'
+  | 'fontWeight'
+  | 'fontSize'
+  | 'lineHeight'
+  | 'letterSpacing';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Variable names considered for each numeric or string kind */
+const TOKEN_NAME_PATTERNS: Record<Exclude<TokenKind, 'color'>, RegExp> = {
+  spacing: /spac|gap|padding|inset/i,
+  radius: /radius|radii|corner|round/i,
+  strokeWeight: /stroke|border-?width/i,
+  opacity: /opacity|alpha/i,
+  sizing: /^(?!.*(font|border|stroke)).*(width|height|size|dimension)/i,
+  fontFamily: /font-?family|typeface/i,
+  fontWeight: /font-?weight/i,
+  fontSize: /font-?size|text-?size/i,
+  lineHeight: /line-?height|leading/i,
+  letterSpacing: /letter-?spacing|tracking/i,
+};
+
+/** Primitive collections lose ties so components are pointed at Theme tokens */
+const PRIMITIVE_COLLECTION_PATTERN = /primitives?/i;
+
+/** Maximum alias hops followed before giving up */
+const MAX_ALIAS_DEPTH = 32;
+
+// ============================================================================
+// Value Resolution
+// ============================================================================
+
+export function isVariableAlias(value: LintVariableValue | undefined): value is LintVariableAlias {
+  return typeof value === 'object' && value !== null && 'type' in value && value.type === 'VARIABLE_ALIAS';
+}
+
+export function isColorValue(value: unknown): value is LintRGBA {
+  return typeof value === 'object' && value !== null && 'r' in value && 'g' in value && 'b' in value;
+}
+
+/** Characters escaped when turning a `*` pattern into a regex */
+const REGEX_SPECIAL = /[.+?^${}()|[\]\\]/g;
+
+/**
+ * Compile a variable name pattern where `*` matches any characters
+ * (including `/`), e.g. `colors/text/*`. Matching is case-insensitive.
+ */
+export function compileNamePattern(pattern: string): RegExp {
+  const source = pattern.split('*').map(part => part.replace(REGEX_SPECIAL, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Mode ID used for a variable: its collection's default mode, or the
+ * first mode it has a value for when the default is unknown.
+ */
+function getDefaultModeId(
+  variable: LintVariable,
+  collectionsById: Map<string, LintVariableCollection>
+): string | undefined {
+  const defaultModeId = collectionsById.get(variable.variableCollectionId)?.defaultModeId;
+  if (defaultModeId && defaultModeId in variable.valuesByMode) return defaultModeId;
+  return Object.keys(variable.valuesByMode)[0];
+}
+
+/**
+ * Outcome of following a variable's alias chain in one mode
+ */
+export interface AliasTrace {
+  status: 'resolved' | 'broken' | 'cycle' | 'too-deep' | 'missing-value';
+  /** Concrete value (status 'resolved') */
+  value?: ResolvedValue;
+  /** Variables visited, starting with the traced variable */
+  chain: LintVariable[];
+  /** Alias hops followed */
+  depth: number;
+  /** Referenced variable ID that does not exist (status 'broken') */
+  missingId?: string;
+}
+
+/**
+ * Follow a variable's alias chain, recording each hop.
+ *
+ * @param modeId - Mode to start in; defaults to the collection's default
+ *   mode. Aliases within the same collection stay in this mode, aliases
+ *   into other collections use that collection's default mode.
+ */
+export function traceAlias(
+  variable: LintVariable,
+  variablesById: Map<string, LintVariable>,
+  collectionsById: Map<string, LintVariableCollection>,
+  modeId?: string
+): AliasTrace {
+  const chain: LintVariable[] = [];
+  let current: LintVariable = variable;
+
+  for (let depth = 0; depth < MAX_ALIAS_DEPTH; depth++) {
+    if (chain.includes(current)) {
+      chain.push(current);
+      return { status: 'cycle', chain, depth };
+    }
+    chain.push(current);
+
+    const sameCollection = current.variableCollectionId === variable.variableCollectionId;
+    const currentModeId = sameCollection && modeId !== undefined && modeId in current.valuesByMode
+      ? modeId
+      : getDefaultModeId(current, collectionsById);
+    const value: LintVariableValue | undefined = currentModeId !== undefined ? current.valuesByMode[currentModeId] : undefined;
+    if (value === undefined) return { status: 'missing-value', chain, depth };
+    if (!isVariableAlias(value)) return { status: 'resolved', value, chain, depth };
+
+    const next = variablesById.get(value.id);
+    if (!next) return { status: 'broken', chain, depth: depth + 1, missingId: value.id };
+    current = next;
+  }
+
+  return { status: 'too-deep', chain, depth: MAX_ALIAS_DEPTH };
+}
+
+/**
+ * Resolve a variable's value, following aliases into other collections
+ * (each in that collection's default mode).
+ *
+ * @param modeId - Mode to resolve in; defaults to the collection's default
+ *   mode. Aliases within the same collection stay in this mode.
+ * @returns The concrete value, or undefined for broken or circular aliases
+ */
+export function resolveVariableValue(
+  variable: LintVariable,
+  variablesById: Map<string, LintVariable>,
+  collectionsById: Map<string, LintVariableCollection>,
+  modeId?: string
+): ResolvedValue | undefined {
+  return traceAlias(variable, variablesById, collectionsById, modeId).value;
+}
+
+/**
+ * Resolve every variable to its default-mode value. Variables whose
+ * alias chain cannot be resolved are left out.
+ */
+export function resolveDefaultModeValues(
+  collections: LintVariableCollection[],
+  variables: LintVariable[]
+): ResolvedVariable[] {
+  const collectionsById = new Map(collections.map(c => [c.id, c]));
+  const variablesById = new Map(variables.map(v => [v.id, v]));
+  const resolved: ResolvedVariable[] = [];
+
+  for (const variable of variables) {
+    const value = resolveVariableValue(variable, variablesById, collectionsById);
+    if (value === undefined) continue;
+    resolved.push({
+      id: variable.id,
+      name: variable.name,
+      collectionId: variable.variableCollectionId,
+      collectionName: collectionsById.get(variable.variableCollectionId)?.name ?? '',
+      value,
+    });
+  }
+
+  return resolved;
+}
+
+// ============================================================================
+// Colour Distance
+// ============================================================================
+
+function srgbToLinear(channel: number): number {
+  return channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Convert an sRGB colour (0–1 channels) to CIELAB (D65 white point).
+ */
+export function rgbToLab(color: LintRGBA): { l: number; a: number; b: number } {
+  const r = srgbToLinear(color.r);
+  const g = srgbToLinear(color.g);
+  const b = srgbToLinear(color.b);
+
+  const x = (r * 0.4124 + g * 0.3576 + b * 0.1805) / 0.95047;
+  const y = (r * 0.2126 + g * 0.7152 + b * 0.0722) / 1.0;
+  const z = (r * 0.0193 + g * 0.1192 + b * 0.9505) / 1.08883;
+
+  const f = (t: number): number => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+/**
+ * Perceptual distance between two colours (CIE76 ΔE). Differences in
+ * alpha are added on the same scale (1% opacity ≈ 1 ΔE).
+ */
+export function colorDistance(a: LintRGBA, b: LintRGBA): number {
+  const labA = rgbToLab(a);
+  const labB = rgbToLab(b);
+  const deltaE = Math.sqrt(
+    Math.pow(labA.l - labB.l, 2) + Math.pow(labA.a - labB.a, 2) + Math.pow(labA.b - labB.b, 2)
+  );
+  return deltaE + Math.abs((a.a ?? 1) - (b.a ?? 1)) * 100;
+}
+
+/**
+ * Whether two colours are identical at 8-bit precision (the precision
+ * Figma shows in its colour picker).
+ */
+function colorsEqual(a: LintRGBA, b: LintRGBA): boolean {
+  const to8 = (v: number): number => Math.round(v * 255);
+  return to8(a.r) === to8(b.r) && to8(a.g) === to8(b.g) && to8(a.b) === to8(b.b) &&
+    Math.abs((a.a ?? 1) - (b.a ?? 1)) < 0.005;
+}
+
+/**
+ * Display form of a resolved value: hex (with alpha) for colours.
+ */
+export function formatResolvedValue(value: ResolvedValue): string {
+  if (isColorValue(value)) {
+    const hex = (v: number): string => Math.round(v * 255).toString(16).padStart(2, '0');
+    const base = `#${hex(value.r)}${hex(value.g)}${hex(value.b)}`;
+    return value.a < 1 ? `${base} @ ${Math.round(value.a * 100)}%` : base;
+  }
+  return String(value);
+}
+
+// ============================================================================
+// Nearest Token Lookup
+// ============================================================================
+
+function isPrimitive(variable: ResolvedVariable): boolean {
+  return PRIMITIVE_COLLECTION_PATTERN.test(variable.collectionName);
+}
+
+function toSuggestion(variable: ResolvedVariable, distance: number, exact: boolean): TokenSuggestion {
+  return {
+    variableId: variable.id,
+    variableName: variable.name,
+    collectionName: variable.collectionName,
+    value: formatResolvedValue(variable.value),
+    exact,
+    distance: Math.round(distance * 100) / 100,
+  };
+}
+
+/**
+ * Find the variable closest to a hard-coded value.
+ *
+ * Exact matches win; otherwise the smallest distance wins. Strings (font
+ * families) only match exactly, ignoring case. Ties prefer non-primitive
+ * collections, then the shorter (more general) name.
+ *
+ * @param kind - What the raw value is used for; non-colour kinds only consider
+ *   variables whose name matches that kind (e.g. `spacing/*` for padding)
+ * @param raw - The hard-coded colour, number or string
+ * @param variables - Resolved variables from `resolveDefaultModeValues`
+ */
+export function findNearestToken(
+  kind: TokenKind,
+  raw: LintRGBA | number | string,
+  variables: ResolvedVariable[]
+): TokenSuggestion | undefined {
+  let best: { variable: ResolvedVariable; distance: number; exact: boolean } | undefined;
+
+  for (const variable of variables) {
+    let distance: number;
+    let exact: boolean;
+
+    if (kind === 'color') {
+      if (!isColorValue(raw) || !isColorValue(variable.value)) continue;
+      exact = colorsEqual(raw, variable.value);
+      distance = exact ? 0 : colorDistance(raw, variable.value);
+    } else if (typeof raw === 'string') {
+      if (typeof variable.value !== 'string' || !TOKEN_NAME_PATTERNS[kind].test(variable.name)) continue;
+      if (raw.toLowerCase() !== variable.value.toLowerCase()) continue;
+      exact = true;
+      distance = 0;
+    } else {
+      if (typeof raw !== 'number' || typeof variable.value !== 'number') continue;
+      if (!TOKEN_NAME_PATTERNS[kind].test(variable.name)) continue;
+      distance = Math.abs(raw - variable.value);
+      exact = distance < 1e-6;
+    }
+
+    const better = !best ||
+      (exact && !best.exact) ||
+      (exact === best.exact && (
+        distance < best.distance ||
+        (distance === best.distance && (
+          (isPrimitive(best.variable) && !isPrimitive(variable)) ||
+          (isPrimitive(best.variable) === isPrimitive(variable) && variable.name.length < best.variable.name.length)
+        ))
+      ));
+    if (better) best = { variable, distance, exact };
+  }
+
+  return best ? toSuggestion(best.variable, best.distance, best.exact) : undefined;
+}
+
+/**
+ * Short human-readable form of a suggestion for check output.
+ */
+export function formatTokenSuggestion(suggestion: TokenSuggestion): string {
+  return suggestion.exact
+    ? `use ${suggestion.variableName}`
+    : `nearest ${suggestion.variableName} (${suggestion.value})`;
+}
+
+// ============================================================================
+// Check Formatting
+// ============================================================================
+
+/** Join bullet lines, listing at most `max` and summarising the rest */
+export function listLines(lines: string[], max: number): string {
+  return lines.slice(0, max).join('\n') +
+    (lines.length > max ? `\n  • and ${lines.length - max} more` : '');
+}
+
+/** Display name of a mode, falling back to its ID */
+export function modeName(collection: LintVariableCollection | undefined, modeId: string): string {
+  return collection?.modes?.find(mode => mode.modeId === modeId)?.name ?? modeId;
+}
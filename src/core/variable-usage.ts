@@ -0,0 +1,246 @@
+/**
+ * Unused variable detection.
+ *
+ * Builds a reference count for every local variable from three sources:
+ *
+ *   - node bindings (`boundVariables`) across all pages
+ *   - text style bindings
+ *   - alias edges from other variables (in any mode)
+ *
+ * A variable is live when a node or text style binds it, or when a live
+ * variable aliases it. Everything else is reported, including orphans:
+ * variables that are only aliased by other unused variables.
+ *
+ * Optionally, collections that form the library's public API (e.g. Theme)
+ * can be treated as used, so only private tokens that nothing in the API
+ * reaches are reported.
+ */
+
+import { AuditCheck } from '../types';
+import type {
+  LintVariable,
+  LintVariableCollection,
+  LintTextStyle,
+  LintNode,
+  LintBoundVariable,
+} from '../shared/types';
+import { RULE_IDS, RuleSeverities, getRuleSeverity } from './rules';
+import { isVariableAlias, listLines } from './token-resolver';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Reference counts for one variable
+ */
+export interface VariableUsage {
+  variableId: string;
+  variableName: string;
+  collectionName: string;
+  /** First segment of the variable name, e.g. `colors` */
+  category: string;
+  nodeReferences: number;
+  textStyleReferences: number;
+  aliasReferences: number;
+  /** Reachable from a node, text style or public API variable */
+  live: boolean;
+}
+
+/**
+ * Unused-variable settings from the project config
+ */
+export interface UnusedVariableOptions {
+  /** Collections treated as public API (always used), or undefined */
+  publicApi?: RegExp;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const DEFAULT_UNUSED_VARIABLE_OPTIONS: UnusedVariableOptions = {};
+
+/** Maximum variable names listed per check before summarising the rest */
+const MAX_LISTED_VARIABLES = 50;
+
+// ============================================================================
+// Reference Counting
+// ============================================================================
+
+function addBindings(
+  boundVariables: Record<string, LintBoundVariable | LintBoundVariable[] | undefined>,
+  counts: Map<string, number>
+): void {
+  for (const binding of Object.values(boundVariables)) {
+    const list = Array.isArray(binding) ? binding : [binding];
+    for (const b of list) {
+      if (b?.id) counts.set(b.id, (counts.get(b.id) ?? 0) + 1);
+    }
+  }
+}
+
+/**
+ * Count variable bindings on a set of node trees (e.g. every page's
+ * children), keyed by variable ID.
+ */
+export function countNodeBindings(nodes: LintNode[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  const visit = (node: LintNode): void => {
+    addBindings(node.boundVariables || {}, counts);
+    // Gradient stop colours are bound on the paint, not the node
+    for (const paint of [...(node.fills ?? []), ...(node.strokes ?? [])]) {
+      for (const stop of ('gradientStops' in paint ? paint.gradientStops : undefined) ?? []) {
+        addBindings(stop.boundVariables ?? {}, counts);
+      }
+    }
+    for (const child of node.children ?? []) visit(child);
+  };
+  nodes.forEach(visit);
+  return counts;
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+/**
+ * Work out which variables are used, directly or through aliases.
+ *
+ * @param collections - Variable collections
+ * @param variables - Local variables
+ * @param textStyles - Local text styles
+ * @param nodeBindings - Binding counts from `countNodeBindings` (or the
+ *   plugin adapter's equivalent)
+ * @param options - Unused-variable settings from the project config
+ */
+export function analyzeVariableUsage(
+  collections: LintVariableCollection[],
+  variables: LintVariable[],
+  textStyles: LintTextStyle[],
+  nodeBindings: Map<string, number>,
+  options: UnusedVariableOptions = DEFAULT_UNUSED_VARIABLE_OPTIONS
+): VariableUsage[] {
+  const collectionsById = new Map(collections.map(c => [c.id, c]));
+  const textStyleCounts = new Map<string, number>();
+  for (const style of textStyles) {
+    addBindings(style.boundVariables, textStyleCounts);
+  }
+
+  // Alias edges, counted once per distinct source variable
+  const aliasTargets = new Map<string, Set<string>>();
+  const aliasCounts = new Map<string, number>();
+  for (const variable of variables) {
+    const targets = new Set<string>();
+    for (const value of Object.values(variable.valuesByMode)) {
+      if (isVariableAlias(value) && value.id !== variable.id) targets.add(value.id);
+    }
+    aliasTargets.set(variable.id, targets);
+    for (const target of targets) {
+      aliasCounts.set(target, (aliasCounts.get(target) ?? 0) + 1);
+    }
+  }
+
+  // Walk alias edges from everything that is used directly
+  const live = new Set<string>();
+  const queue: string[] = [];
+  for (const variable of variables) {
+    const collectionName = collectionsById.get(variable.variableCollectionId)?.name ?? '';
+    const isPublic = options.publicApi?.test(collectionName) ?? false;
+    if (isPublic || nodeBindings.has(variable.id) || textStyleCounts.has(variable.id)) {
+      live.add(variable.id);
+      queue.push(variable.id);
+    }
+  }
+  while (queue.length > 0) {
+    const id = queue.pop() as string;
+    for (const target of aliasTargets.get(id) ?? []) {
+      if (!live.has(target)) {
+        live.add(target);
+        queue.push(target);
+      }
+    }
+  }
+
+  return variables.map(variable => ({
+    variableId: variable.id,
+    variableName: variable.name,
+    collectionName: collectionsById.get(variable.variableCollectionId)?.name ?? '',
+    category: variable.name.split('/')[0],
+    nodeReferences: nodeBindings.get(variable.id) ?? 0,
+    textStyleReferences: textStyleCounts.get(variable.id) ?? 0,
+    aliasReferences: aliasCounts.get(variable.id) ?? 0,
+    live: live.has(variable.id),
+  }));
+}
+
+/**
+ * Report unused variables, one check per collection and category.
+ *
+ * @param collections - Variable collections
+ * @param variables - Local variables
+ * @param textStyles - Local text styles
+ * @param nodeBindings - Binding counts across all pages
+ * @param options - Unused-variable settings from the project config
+ * @param severities - Optional rule severity overrides from the project config
+ */
+export function validateUnusedVariables(
+  collections: LintVariableCollection[],
+  variables: LintVariable[],
+  textStyles: LintTextStyle[],
+  nodeBindings: Map<string, number>,
+  options: UnusedVariableOptions = DEFAULT_UNUSED_VARIABLE_OPTIONS,
+  severities: RuleSeverities = {}
+): {
+  usage: VariableUsage[];
+  auditChecks: AuditCheck[];
+} {
+  const severity = getRuleSeverity(RULE_IDS.unusedVariable, severities);
+  if (severity === 'off') {
+    return { usage: [], auditChecks: [] };
+  }
+
+  console.log('🧹 [USAGE] Counting references to', variables.length, 'variables...');
+  const usage = analyzeVariableUsage(collections, variables, textStyles, nodeBindings, options);
+  const unused = usage.filter(u => !u.live);
+  const auditChecks: AuditCheck[] = [];
+
+  // Group by collection, then category
+  const groups = new Map<string, VariableUsage[]>();
+  for (const entry of unused) {
+    const key = `${entry.collectionName}\u0000${entry.category}`;
+    const group = groups.get(key) ?? [];
+    group.push(entry);
+    groups.set(key, group);
+  }
+
+  const sortedKeys = Array.from(groups.keys()).sort((a, b) => a.localeCompare(b));
+  for (const key of sortedKeys) {
+    const group = groups.get(key) as VariableUsage[];
+    const { collectionName, category } = group[0];
+    const names = group
+      .map(u => `  • ${u.variableName}${u.aliasReferences > 0 ? ` (only aliased by unused variables)` : ''}`)
+      .sort((a, b) => a.localeCompare(b));
+    const listed = listLines(names, MAX_LISTED_VARIABLES);
+
+    auditChecks.push({
+      ruleId: RULE_IDS.unusedVariable,
+      check: `${collectionName} / ${category} — unused variables`,
+      status: severity === 'warning' ? 'warning' : 'fail',
+      suggestion: `${group.length} variable${group.length !== 1 ? 's are' : ' is'} not bound by any layer or text style, and not aliased by a used variable:\n${listed}\n\n` +
+        `To fix: Delete the variables, or bind them where they were meant to be used.`,
+    });
+  }
+
+  if (unused.length === 0) {
+    auditChecks.push({
+      ruleId: RULE_IDS.unusedVariable,
+      check: 'Unused variables',
+      status: 'pass',
+      suggestion: `All ${usage.length} variables are referenced by a layer, text style or used variable`,
+    });
+  }
+
+  console.log('🧹 [USAGE] Complete:', { variables: usage.length, unused: unused.length });
+  return { usage, auditChecks };
+}
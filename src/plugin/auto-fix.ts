@@ -0,0 +1,124 @@
+/// <reference types="@figma/plugin-typings" />
+
+/**
+ * Bind hard-coded component values to variables whose resolved value
+ * matches exactly.
+ *
+ * Planning re-scans the live components (the audit results in the UI may
+ * be stale) and only proposes exact matches, so applying a plan never
+ * changes how a component looks. All bindings from one plan are committed
+ * as a single undo step.
+ */
+
+import { fetchVariableData, fetchComponentById } from './data-adapter';
+import { planExactBindings, BindingFix } from '../core/collection-validator';
+import { resolveDefaultModeValues } from '../core/token-resolver';
+
+const CORNER_FIELDS = ['topLeftRadius', 'topRightRadius', 'bottomLeftRadius', 'bottomRightRadius'] as const;
+
+/**
+ * Result of applying a binding plan
+ */
+export interface BindingFixResult {
+  applied: number;
+  failed: number;
+  errors: string[];
+}
+
+/**
+ * Plan exact-match bindings for the given components.
+ *
+ * @param componentIds - Component or component set node IDs
+ */
+export async function planBindingFixes(componentIds: string[]): Promise<BindingFix[]> {
+  const data = await fetchVariableData();
+  const tokens = resolveDefaultModeValues(data.collections, data.variables);
+  const fixes: BindingFix[] = [];
+
+  for (const componentId of componentIds) {
+    const component = await fetchComponentById(componentId);
+    if (component) {
+      fixes.push(...planExactBindings(component.node, tokens));
+    }
+  }
+
+  return fixes;
+}
+
+/**
+ * Bind a single planned value. Throws when the node or variable no longer
+ * exists, or the value can no longer be bound.
+ */
+async function applyBindingFix(fix: BindingFix, variable: Variable): Promise<void> {
+  const node = await figma.getNodeByIdAsync(fix.nodeId);
+  if (!node || node.type === 'DOCUMENT' || node.type === 'PAGE') {
+    throw new Error(`node ${fix.nodeId} not found`);
+  }
+  const sceneNode = node as SceneNode;
+
+  switch (fix.field) {
+    case 'fills':
+    case 'strokes': {
+      if (!(fix.field in sceneNode)) throw new Error(`${fix.nodeName} has no ${fix.field}`);
+      const target = sceneNode as GeometryMixin & SceneNode;
+      const paints = target[fix.field];
+      if (!Array.isArray(paints)) throw new Error(`${fix.nodeName} has mixed ${fix.field}`);
+      const paint = paints[fix.index ?? 0];
+      if (!paint || paint.type !== 'SOLID') throw new Error(`${fix.nodeName} ${fix.property} is no longer a solid colour`);
+
+      const updated = [...paints];
+      updated[fix.index ?? 0] = figma.variables.setBoundVariableForPaint(paint, 'color', variable);
+      target[fix.field] = updated;
+      break;
+    }
+    case 'cornerRadius':
+      if (!('topLeftRadius' in sceneNode)) throw new Error(`${fix.nodeName} has no corner radius`);
+      for (const corner of CORNER_FIELDS) {
+        sceneNode.setBoundVariable(corner, variable);
+      }
+      break;
+    case 'fontSize': {
+      if (sceneNode.type !== 'TEXT') throw new Error(`${fix.nodeName} is not a text layer`);
+      if (sceneNode.fontName === figma.mixed) throw new Error(`${fix.nodeName} uses mixed fonts`);
+      await figma.loadFontAsync(sceneNode.fontName);
+      sceneNode.setBoundVariable('fontSize', variable);
+      break;
+    }
+    default:
+      if (!(fix.field in sceneNode)) throw new Error(`${fix.nodeName} has no ${fix.field}`);
+      (sceneNode as FrameNode).setBoundVariable(fix.field, variable);
+      break;
+  }
+}
+
+/**
+ * Apply planned bindings as one undoable step.
+ */
+export async function applyBindingFixes(fixes: BindingFix[]): Promise<BindingFixResult> {
+  const result: BindingFixResult = { applied: 0, failed: 0, errors: [] };
+  const variables = new Map<string, Variable | null>();
+
+  // Close any earlier plugin changes so undo only reverts this batch
+  figma.commitUndo();
+
+  for (const fix of fixes) {
+    try {
+      if (!variables.has(fix.variableId)) {
+        variables.set(fix.variableId, await figma.variables.getVariableByIdAsync(fix.variableId));
+      }
+      const variable = variables.get(fix.variableId);
+      if (!variable) throw new Error(`variable ${fix.variableName} not found`);
+
+      await applyBindingFix(fix, variable);
+      result.applied++;
+    } catch (error) {
+      result.failed++;
+      result.errors.push(
+        `${fix.componentName} / ${fix.nodeName} ${fix.property}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  figma.commitUndo();
+  return result;
+}
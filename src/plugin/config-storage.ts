@@ -0,0 +1,80 @@
+/// <reference types="@figma/plugin-typings" />
+
+/**
+ * Persist the project config in `figma.clientStorage` so the plugin can
+ * run the same brand-specific rules as the CLI's `.ctdslintrc`.
+ *
+ * The config is stored as the JSON text the user pasted, so it can be
+ * shown back to them unchanged.
+ */
+
+import {
+  CtdsLintConfig,
+  DEFAULT_CONFIG,
+  parseConfig,
+  formatConfigErrors,
+} from '../core/config';
+
+/** clientStorage key holding the raw config JSON text */
+export const CONFIG_STORAGE_KEY = 'ctdslint-config';
+
+/**
+ * Parse config JSON text and validate it against the schema.
+ */
+function parseConfigText(text: string): { config: CtdsLintConfig; errors: string[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return {
+      config: DEFAULT_CONFIG,
+      errors: [`Could not parse config JSON: ${error instanceof Error ? error.message : 'Unknown error'}`],
+    };
+  }
+  return parseConfig(raw);
+}
+
+/**
+ * Load the stored config, falling back to the defaults when nothing is
+ * stored or the stored config no longer validates.
+ */
+export async function loadPluginConfig(): Promise<CtdsLintConfig> {
+  const text = await figma.clientStorage.getAsync(CONFIG_STORAGE_KEY);
+  if (typeof text !== 'string' || text.trim() === '') {
+    return DEFAULT_CONFIG;
+  }
+
+  const { config, errors } = parseConfigText(text);
+  if (errors.length > 0) {
+    console.warn('⚠️ [CONFIG]', formatConfigErrors('clientStorage', errors));
+    return DEFAULT_CONFIG;
+  }
+  return config;
+}
+
+/**
+ * Return the raw stored config text (empty string when none is stored).
+ */
+export async function loadPluginConfigText(): Promise<string> {
+  const text = await figma.clientStorage.getAsync(CONFIG_STORAGE_KEY);
+  return typeof text === 'string' ? text : '';
+}
+
+/**
+ * Validate and store config text. An empty string clears the stored
+ * config so the defaults apply again.
+ *
+ * @returns Schema errors; the config is only stored when there are none
+ */
+export async function savePluginConfig(text: string): Promise<string[]> {
+  if (text.trim() === '') {
+    await figma.clientStorage.deleteAsync(CONFIG_STORAGE_KEY);
+    return [];
+  }
+
+  const { errors } = parseConfigText(text);
+  if (errors.length === 0) {
+    await figma.clientStorage.setAsync(CONFIG_STORAGE_KEY, text);
+  }
+  return errors;
+}
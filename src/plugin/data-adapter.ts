@@ -17,12 +17,15 @@ import type {
   LintPaint,
   LintSolidPaint,
   LintOtherPaint,
+  LintGradientStop,
   LintEffect,
   LintRGBA,
   LintLineHeight,
   LintLetterSpacing,
+  LintTextSegment,
   LintData,
 } from '../shared/types';
+import { getPageOf } from '../utils/figma-helpers';
 
 // ============================================================================
 // Variable / Collection Adapters
@@ -63,6 +66,8 @@ function adaptCollection(collection: VariableCollection): LintVariableCollection
   return {
     id: collection.id,
     name: collection.name,
+    defaultModeId: collection.defaultModeId,
+    modes: collection.modes.map(mode => ({ modeId: mode.modeId, name: mode.name })),
   };
 }
 
@@ -79,6 +84,7 @@ function adaptTextStyle(style: TextStyle): LintTextStyle {
     }
   }
   return {
+    id: style.id,
     name: style.name,
     boundVariables,
   };
@@ -106,10 +112,18 @@ function adaptPaint(paint: Paint): LintPaint {
       visible: solid.visible !== false,
     } satisfies LintSolidPaint;
   }
-  return {
+  const result: LintOtherPaint = {
     type: paint.type,
     visible: (paint as any).visible !== false,
-  } satisfies LintOtherPaint;
+  };
+  if ('gradientStops' in paint) {
+    result.gradientStops = paint.gradientStops.map((stop): LintGradientStop => ({
+      position: stop.position,
+      color: adaptColor(stop.color),
+      boundVariables: stop.boundVariables?.color ? { color: { id: stop.boundVariables.color.id } } : undefined,
+    }));
+  }
+  return result;
 }
 
 function adaptEffect(effect: Effect): LintEffect {
@@ -134,6 +148,38 @@ function adaptLetterSpacing(ls: LetterSpacing): LintLetterSpacing | 'MIXED' {
   return { value: ls.value, unit: ls.unit === 'PERCENT' ? 'PERCENT' : 'PIXELS' };
 }
 
+/**
+ * Split a text node into runs of uniform typography and bindings.
+ * Returns undefined when the whole text is formatted the same.
+ */
+function adaptTextSegments(textNode: TextNode): LintTextSegment[] | undefined {
+  const segments = textNode.getStyledTextSegments([
+    'fontName', 'fontWeight', 'fontSize', 'lineHeight', 'letterSpacing', 'textStyleId', 'boundVariables',
+  ]);
+  if (segments.length < 2) return undefined;
+
+  return segments.map(segment => {
+    const boundVariables: LintTextSegment['boundVariables'] = {};
+    for (const [key, alias] of Object.entries(segment.boundVariables || {})) {
+      if (alias && alias.id) boundVariables[key] = { id: alias.id };
+    }
+    const lineHeight = adaptLineHeight(segment.lineHeight);
+    const letterSpacing = adaptLetterSpacing(segment.letterSpacing);
+    return {
+      start: segment.start,
+      end: segment.end,
+      characters: segment.characters,
+      fontFamily: segment.fontName.family,
+      fontWeight: segment.fontWeight,
+      fontSize: segment.fontSize,
+      lineHeight: lineHeight === 'MIXED' ? undefined : lineHeight,
+      letterSpacing: letterSpacing === 'MIXED' ? undefined : letterSpacing,
+      textStyleId: segment.textStyleId,
+      boundVariables,
+    };
+  });
+}
+
 function adaptBoundVariables(node: SceneNode): LintNode['boundVariables'] {
   const bv = (node as any).boundVariables || {};
   const result: LintNode['boundVariables'] = {};
@@ -172,11 +218,42 @@ function adaptNode(node: SceneNode): LintNode {
     result.effects = (node.effects as readonly Effect[]).map(adaptEffect);
   }
 
+  // Paint and effect styles
+  if ('fillStyleId' in node) {
+    const styleId = (node as any).fillStyleId;
+    result.fillStyleId = typeof styleId === 'string' ? styleId : 'MIXED';
+  }
+  if ('strokeStyleId' in node) result.strokeStyleId = (node as any).strokeStyleId;
+  if ('effectStyleId' in node) result.effectStyleId = (node as any).effectStyleId;
+
   // Corner radius
   if ('cornerRadius' in node) {
     const cr = (node as any).cornerRadius;
     result.cornerRadius = typeof cr === 'number' ? cr : 'MIXED';
   }
+  if ('topLeftRadius' in node) {
+    const corners = node as RectangleCornerMixin;
+    result.topLeftRadius = corners.topLeftRadius;
+    result.topRightRadius = corners.topRightRadius;
+    result.bottomRightRadius = corners.bottomRightRadius;
+    result.bottomLeftRadius = corners.bottomLeftRadius;
+  }
+
+  // Stroke weight
+  if ('strokeWeight' in node) {
+    const sw = (node as any).strokeWeight;
+    if (typeof sw === 'number') result.strokeWeight = sw;
+  }
+  if ('strokeTopWeight' in node) {
+    const sides = node as IndividualStrokesMixin;
+    result.strokeTopWeight = sides.strokeTopWeight;
+    result.strokeRightWeight = sides.strokeRightWeight;
+    result.strokeBottomWeight = sides.strokeBottomWeight;
+    result.strokeLeftWeight = sides.strokeLeftWeight;
+  }
+
+  // Opacity
+  if ('opacity' in node) result.opacity = (node as any).opacity;
 
   // Auto-layout
   if ('layoutMode' in node) {
@@ -188,9 +265,19 @@ function adaptNode(node: SceneNode): LintNode {
   if ('paddingLeft' in node) result.paddingLeft = (node as any).paddingLeft;
   if ('itemSpacing' in node) result.itemSpacing = (node as any).itemSpacing;
 
+  // Sizing constraints (null when not set)
+  for (const field of ['minWidth', 'maxWidth', 'minHeight', 'maxHeight'] as const) {
+    const value = field in node ? (node as any)[field] : null;
+    if (typeof value === 'number') result[field] = value;
+  }
+
   // Typography (TEXT nodes)
   if (node.type === 'TEXT') {
     const textNode = node as TextNode;
+    result.fontFamily = typeof textNode.fontName === 'object' && 'family' in textNode.fontName
+      ? textNode.fontName.family
+      : 'MIXED';
+    result.fontWeight = typeof textNode.fontWeight === 'number' ? textNode.fontWeight : 'MIXED';
     result.fontSize = typeof textNode.fontSize === 'number' ? textNode.fontSize : 'MIXED';
     const lh = textNode.lineHeight;
     if (lh && typeof lh === 'object' && 'unit' in lh) {
@@ -200,6 +287,9 @@ function adaptNode(node: SceneNode): LintNode {
     if (ls && typeof ls === 'object' && 'unit' in ls) {
       result.letterSpacing = adaptLetterSpacing(ls);
     }
+    result.textStyleId = typeof textNode.textStyleId === 'string' ? textNode.textStyleId : 'MIXED';
+    const segments = adaptTextSegments(textNode);
+    if (segments) result.textSegments = segments;
   }
 
   // Children
@@ -286,3 +376,118 @@ export async function fetchComponents(
 
   return components;
 }
+
+/**
+ * Scan only the current page for components, yielding periodically.
+ *
+ * Avoids `loadAllPagesAsync()` so auditing a single page stays fast in
+ * large files.
+ */
+export async function fetchCurrentPageComponents(
+  onProgress?: (message: string) => void
+): Promise<LintComponent[]> {
+  const components: LintComponent[] = [];
+  const currentPage = figma.currentPage;
+  const pageName = currentPage.name;
+  let nodesProcessed = 0;
+
+  async function walk(node: SceneNode): Promise<void> {
+    if (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET') {
+      components.push({ node: adaptNode(node), pageName });
+      return;
+    }
+
+    if ('children' in node) {
+      for (const child of node.children) {
+        nodesProcessed++;
+
+        // Yield every 50 nodes to keep UI responsive on large pages
+        if (nodesProcessed % 50 === 0) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+
+        await walk(child);
+      }
+    }
+  }
+
+  onProgress?.(`Scanning current page: "${pageName}"`);
+  for (const child of currentPage.children) {
+    await walk(child);
+  }
+
+  return components;
+}
+
+/**
+ * Count variable bindings on every node of every page, keyed by variable
+ * ID. Lighter than adapting the whole document: only `boundVariables` is
+ * read. Call after pages are loaded (e.g. after `fetchComponents`).
+ */
+export async function fetchVariableBindingCounts(
+  onProgress?: (message: string) => void
+): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  let nodesProcessed = 0;
+
+  async function walk(node: SceneNode): Promise<void> {
+    for (const binding of Object.values(adaptBoundVariables(node))) {
+      const list = Array.isArray(binding) ? binding : [binding];
+      for (const b of list) {
+        if (b?.id) counts.set(b.id, (counts.get(b.id) ?? 0) + 1);
+      }
+    }
+    // Gradient stop colours are bound on the paint, not the node
+    for (const field of ['fills', 'strokes'] as const) {
+      const paints = field in node ? (node as any)[field] : undefined;
+      if (!Array.isArray(paints)) continue;
+      for (const paint of paints as Paint[]) {
+        if (!('gradientStops' in paint)) continue;
+        for (const stop of paint.gradientStops) {
+          const id = stop.boundVariables?.color?.id;
+          if (id) counts.set(id, (counts.get(id) ?? 0) + 1);
+        }
+      }
+    }
+
+    if ('children' in node) {
+      for (const child of node.children) {
+        nodesProcessed++;
+
+        // Yield every 200 nodes to keep UI responsive
+        if (nodesProcessed % 200 === 0) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+
+        await walk(child);
+      }
+    }
+  }
+
+  await figma.loadAllPagesAsync();
+  const totalPages = figma.root.children.length;
+  for (let i = 0; i < totalPages; i++) {
+    const page = figma.root.children[i];
+    onProgress?.(`Counting variable usage on page ${i + 1}/${totalPages}: "${page.name}"`);
+    for (const child of page.children) {
+      await walk(child);
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Adapt a single component (or component set) by node ID, e.g. to re-scan
+ * it before applying fixes. Returns undefined when the node is missing or
+ * is not a component.
+ */
+export async function fetchComponentById(nodeId: string): Promise<LintComponent | undefined> {
+  const node = await figma.getNodeByIdAsync(nodeId);
+  if (!node || (node.type !== 'COMPONENT' && node.type !== 'COMPONENT_SET')) {
+    return undefined;
+  }
+
+  const page = getPageOf(node);
+  return { node: adaptNode(node), pageName: page ? page.name : '' };
+}
@@ -49,6 +49,10 @@ export interface LintVariable {
 export interface LintVariableCollection {
   id: string;
   name: string;
+  /** Mode used when a single value per variable is needed */
+  defaultModeId?: string;
+  /** Modes defined on the collection, in display order */
+  modes?: Array<{ modeId: string; name: string }>;
 }
 
 // ============================================================================
@@ -66,7 +70,11 @@ export interface LintBoundVariable {
  * Platform-neutral representation of a Figma text style.
  */
 export interface LintTextStyle {
+  /** Style ID, as referenced by a text node's `textStyleId` */
+  id: string;
   name: string;
+  /** Style is published from another library (REST only; the plugin lists local styles) */
+  remote?: boolean;
   /** Variable bindings keyed by property name (fontFamily, fontSize, etc.) */
   boundVariables: Record<string, LintBoundVariable | undefined>;
 }
@@ -90,10 +98,21 @@ export interface LintSolidPaint {
   visible: boolean;
 }
 
+/** A colour stop of a gradient paint */
+export interface LintGradientStop {
+  /** Position along the gradient, 0–1 */
+  position: number;
+  color: LintRGBA;
+  /** Variable bound to the stop colour */
+  boundVariables?: { color?: LintBoundVariable };
+}
+
 /** A non-solid paint (gradient, image, etc.) – treated as opaque */
 export interface LintOtherPaint {
   type: string; // GRADIENT_LINEAR, IMAGE, etc.
   visible: boolean;
+  /** Only present for gradients */
+  gradientStops?: LintGradientStop[];
 }
 
 export type LintPaint = LintSolidPaint | LintOtherPaint;
@@ -118,6 +137,26 @@ export interface LintLetterSpacing {
   unit: 'PIXELS' | 'PERCENT';
 }
 
+/**
+ * A run of text with uniform typography inside a TEXT node.
+ */
+export interface LintTextSegment {
+  /** First character index */
+  start: number;
+  /** Index after the last character */
+  end: number;
+  characters: string;
+  fontFamily?: string;
+  fontWeight?: number;
+  fontSize?: number;
+  lineHeight?: LintLineHeight;
+  letterSpacing?: LintLetterSpacing;
+  /** Applied text style ID; empty or absent when no style is applied */
+  textStyleId?: string;
+  /** Variable bindings keyed by typography property */
+  boundVariables: Record<string, LintBoundVariable | undefined>;
+}
+
 /**
  * Platform-neutral representation of a Figma scene node,
  * containing only the fields the validators inspect.
@@ -134,7 +173,21 @@ export interface LintNode {
   fills?: LintPaint[];
   strokes?: LintPaint[];
   effects?: LintEffect[];
+  /** Applied style IDs; empty or absent when no style is applied */
+  fillStyleId?: string | 'MIXED';
+  strokeStyleId?: string;
+  effectStyleId?: string;
   cornerRadius?: number | 'MIXED';
+  /** Per-corner radii (nodes whose corners can differ) */
+  topLeftRadius?: number;
+  topRightRadius?: number;
+  bottomRightRadius?: number;
+  bottomLeftRadius?: number;
+  /** Per-side stroke weights (frames and rectangles) */
+  strokeTopWeight?: number;
+  strokeRightWeight?: number;
+  strokeBottomWeight?: number;
+  strokeLeftWeight?: number;
 
   // Auto-layout
   layoutMode?: 'NONE' | 'HORIZONTAL' | 'VERTICAL';
@@ -145,11 +198,22 @@ export interface LintNode {
   itemSpacing?: number;
   layoutSizingHorizontal?: string;
   layoutSizingVertical?: string;
+  /** Sizing constraints; absent when not set */
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
 
   // Typography (TEXT nodes only)
+  fontFamily?: string | 'MIXED';
+  fontWeight?: number | 'MIXED';
   fontSize?: number | 'MIXED';
   lineHeight?: LintLineHeight | 'MIXED';
   letterSpacing?: LintLetterSpacing | 'MIXED';
+  /** Applied text style ID; empty or absent when no style is applied */
+  textStyleId?: string | 'MIXED';
+  /** Styled runs, only present when the typography varies across the text */
+  textSegments?: LintTextSegment[];
 
   // Component properties (COMPONENT_SET / COMPONENT nodes)
   componentPropertyDefinitions?: Record<
@@ -165,6 +229,7 @@ export interface LintNode {
   opacity?: number;
   blendMode?: string;
   constraints?: { horizontal: string; vertical: string };
+  /** Stroke weight; the per-side weights take precedence when they differ */
   strokeWeight?: number;
 
   /** Recursive children */
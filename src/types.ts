@@ -8,11 +8,46 @@ export interface PluginMessage {
 
 // Audit Types (used by collection-validator)
 export interface AuditCheck {
+  /** Stable rule identifier (see `src/core/rules.ts`), e.g. `component/raw-fill` */
+  ruleId: string;
   check: string;
   status: 'pass' | 'fail' | 'warning';
   suggestion: string;
   /** Optional page name for component-level checks */
   pageName?: string;
+  /** Optional component node ID for component-level checks */
+  nodeId?: string;
+  /** Individual hard-coded values behind a component check */
+  rawValues?: AuditRawValue[];
+}
+
+/**
+ * A single hard-coded value found inside a component
+ */
+export interface AuditRawValue {
+  /** ID of the node that holds the value (may be a descendant of the component) */
+  nodeId: string;
+  nodeName: string;
+  property: string;
+  /** Display value, e.g. `#3a3a3a` or `16px` */
+  value: string;
+  /** Closest matching variable, when one could be found */
+  tokenSuggestion?: TokenSuggestion;
+}
+
+/**
+ * Variable suggested as a replacement for a hard-coded value
+ */
+export interface TokenSuggestion {
+  variableId: string;
+  variableName: string;
+  collectionName: string;
+  /** Resolved default-mode value of the variable, formatted for display */
+  value: string;
+  /** True when the variable resolves to exactly the raw value */
+  exact: boolean;
+  /** Perceptual colour distance (CIE76 ΔE) or absolute numeric difference */
+  distance: number;
 }
 
 // Utility Types
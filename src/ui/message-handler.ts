@@ -1,14 +1,30 @@
 /// <reference types="@figma/plugin-typings" />
 
-import { sendMessageToUI } from '../utils/figma-helpers';
-import { fetchVariableData, fetchComponents } from '../plugin/data-adapter';
+import { sendMessageToUI, getPageOf } from '../utils/figma-helpers';
+import { fetchVariableData, fetchComponents, fetchCurrentPageComponents, fetchVariableBindingCounts } from '../plugin/data-adapter';
+import { loadPluginConfig, loadPluginConfigText, savePluginConfig } from '../plugin/config-storage';
+import { planBindingFixes, applyBindingFixes } from '../plugin/auto-fix';
 import {
   validateCollectionStructure,
   validateTextStylesAgainstVariables,
   validateTextStyleBindings,
   validateAllComponentBindings,
-  validateCurrentPageComponentBindings
+  BindingFix
 } from '../core/collection-validator';
+import { applyRuleSeverities, RuleSeverities } from '../core/rules';
+import { resolveDefaultModeValues } from '../core/token-resolver';
+import { validateComponentContrast, validateModeContrast } from '../core/contrast-validator';
+import { validateAliasGraph } from '../core/alias-validator';
+import { validateComponentTiers, validateVariableTiers } from '../core/tier-validator';
+import { validateUnusedVariables } from '../core/variable-usage';
+import { validateModeCompleteness } from '../core/mode-validator';
+import { validateVariableNaming } from '../core/naming-validator';
+import { validateDuplicateValues } from '../core/duplicate-validator';
+import { validateScales } from '../core/scale-validator';
+import { validateMirrorValues } from '../core/mirror-validator';
+import type { CtdsLintConfig } from '../core/config';
+import type { LintData, LintComponent } from '../shared/types';
+import type { AuditCheck } from '../types';
 
 /**
  * Main message handler for UI communication (CT/DS Audit only)
@@ -31,6 +47,21 @@ export async function handleUIMessage(msg: any): Promise<void> {
       case 'analyze-components-current-page':
         await handleComponentsCurrentPageAudit();
         break;
+      case 'get-config':
+        await handleGetConfig();
+        break;
+      case 'save-config':
+        await handleSaveConfig(msg.data);
+        break;
+      case 'plan-binding-fixes':
+        await handlePlanBindingFixes(msg.data);
+        break;
+      case 'apply-binding-fixes':
+        await handleApplyBindingFixes(msg.data);
+        break;
+      case 'select-node':
+        await handleSelectNode(msg.data);
+        break;
       default:
         console.warn('Unknown message type:', type);
     }
@@ -49,12 +80,11 @@ async function handleSystemAudit(): Promise<void> {
     console.log('🔍 Running CT/DS audit...');
 
     // Fetch lightweight variable/style data (fast)
+    const config = await loadPluginConfig();
     const data = await fetchVariableData();
 
     // Run variable and style validations (synchronous, fast)
-    const collectionValidation = validateCollectionStructure(
-      data.collections, data.variables
-    );
+    const variableChecks = runVariableValidators(data, config);
     const textStyleSync = validateTextStylesAgainstVariables(
       data.collections, data.variables, data.textStyles
     );
@@ -68,34 +98,42 @@ async function handleSystemAudit(): Promise<void> {
     };
     const components = await fetchComponents(progressCallback);
 
-    const componentBindings = validateAllComponentBindings(
-      components,
-      progressCallback
+    const componentResults = runComponentValidators(components, data, config, progressCallback);
+
+    // Unused variables need bindings from every page, so only the full audit reports them
+    const nodeBindings = await fetchVariableBindingCounts(progressCallback);
+    const unusedVariables = validateUnusedVariables(
+      data.collections, data.variables, data.textStyles, nodeBindings, config.unused, config.rules
     );
+    const collectionChecks = applyRuleSeverities([
+      ...variableChecks,
+      ...unusedVariables.auditChecks
+    ], config.rules);
 
-    // Combine text style checks
-    const combinedTextStyleSync = [
+    // Apply configured rule severities to each section
+    const combinedTextStyleSync = applyRuleSeverities([
       ...textStyleSync.auditChecks,
       ...textStyleBindings.auditChecks
-    ];
+    ], config.rules);
+    const componentChecks = applyRuleSeverities(componentResults, config.rules);
 
     // Calculate scores for each section with detailed counts
     const allChecks = [
-      ...collectionValidation.auditChecks,
+      ...collectionChecks,
       ...combinedTextStyleSync,
-      ...componentBindings.auditChecks
+      ...componentChecks
     ];
 
-    const overallStats = calculateAuditStats(allChecks);
-    const collectionStats = calculateAuditStats(collectionValidation.auditChecks);
-    const textStyleStats = calculateAuditStats(combinedTextStyleSync);
-    const componentStats = calculateComponentStats(componentBindings.auditChecks);
+    const overallStats = calculateAuditStats(allChecks, config.rules);
+    const collectionStats = calculateAuditStats(collectionChecks, config.rules);
+    const textStyleStats = calculateAuditStats(combinedTextStyleSync, config.rules);
+    const componentStats = calculateComponentStats(componentChecks, config.rules);
 
     // Send results to UI
     sendMessageToUI('system-audit-result', {
-      collectionStructure: collectionValidation.auditChecks,
+      collectionStructure: collectionChecks,
       textStyleSync: combinedTextStyleSync,
-      componentBindings: componentBindings.auditChecks,
+      componentBindings: componentChecks,
       scores: {
         overall: overallStats,
         collection: collectionStats,
@@ -113,6 +151,79 @@ async function handleSystemAudit(): Promise<void> {
   }
 }
 
+/**
+ * Variable-level validators reported in the collection section
+ */
+function runVariableValidators(
+  data: Pick<LintData, 'collections' | 'variables'>,
+  config: CtdsLintConfig
+): AuditCheck[] {
+  const collectionValidation = validateCollectionStructure(
+    data.collections, data.variables, config.collections
+  );
+  const aliasGraph = validateAliasGraph(
+    data.collections, data.variables, config.aliases, config.rules
+  );
+  const tierChecks = validateVariableTiers(
+    data.collections, data.variables, config.tiers, config.rules
+  );
+  const modeChecks = validateModeCompleteness(
+    data.collections, data.variables, config.rules
+  );
+  const namingChecks = validateVariableNaming(
+    data.collections, data.variables, config.naming, config.rules
+  );
+  const duplicates = validateDuplicateValues(
+    data.collections, data.variables, config.rules
+  );
+  const scaleChecks = validateScales(
+    data.collections, data.variables, config.scales, config.rules
+  );
+  const mirrorChecks = validateMirrorValues(
+    data.collections, data.variables, config.mirrors, config.rules
+  );
+  const modeContrast = validateModeContrast(
+    config.contrast.pairs, data.collections, data.variables, config.rules
+  );
+  return [
+    ...collectionValidation.auditChecks,
+    ...aliasGraph.auditChecks,
+    ...namingChecks,
+    ...tierChecks,
+    ...modeChecks,
+    ...duplicates.auditChecks,
+    ...scaleChecks,
+    ...mirrorChecks,
+    ...modeContrast.auditChecks
+  ];
+}
+
+/**
+ * Component-level validators reported in the component section
+ */
+function runComponentValidators(
+  components: LintComponent[],
+  data: Pick<LintData, 'collections' | 'variables' | 'textStyles'>,
+  config: CtdsLintConfig,
+  onProgress: (message: string) => void
+): AuditCheck[] {
+  const componentBindings = validateAllComponentBindings(
+    components,
+    onProgress,
+    config.rules,
+    resolveDefaultModeValues(data.collections, data.variables),
+    config.roles,
+    data.textStyles
+  );
+  const tierChecks = validateComponentTiers(
+    components, data.collections, data.variables, config.tiers, config.rules
+  );
+  const contrast = validateComponentContrast(
+    components, data.collections, data.variables, config.rules
+  );
+  return [...componentBindings.auditChecks, ...tierChecks, ...contrast.auditChecks];
+}
+
 /**
  * Variables & Styles audit - validates collections and text styles only
  */
@@ -121,11 +232,10 @@ async function handleVariablesStylesAudit(): Promise<void> {
     console.log('🔍 Running Variables & Styles audit...');
 
     // Fetch only variable/style data — no page loading needed
+    const config = await loadPluginConfig();
     const data = await fetchVariableData();
 
-    const collectionValidation = validateCollectionStructure(
-      data.collections, data.variables
-    );
+    const collectionChecks = applyRuleSeverities(runVariableValidators(data, config), config.rules);
     const textStyleSync = validateTextStylesAgainstVariables(
       data.collections, data.variables, data.textStyles
     );
@@ -133,25 +243,25 @@ async function handleVariablesStylesAudit(): Promise<void> {
       data.textStyles, data.variables
     );
 
-    // Combine text style checks
-    const combinedTextStyleSync = [
+    // Apply configured rule severities and combine text style checks
+    const combinedTextStyleSync = applyRuleSeverities([
       ...textStyleSync.auditChecks,
       ...textStyleBindings.auditChecks
-    ];
+    ], config.rules);
 
     // Calculate scores for each section
     const allChecks = [
-      ...collectionValidation.auditChecks,
+      ...collectionChecks,
       ...combinedTextStyleSync
     ];
 
-    const overallStats = calculateAuditStats(allChecks);
-    const collectionStats = calculateAuditStats(collectionValidation.auditChecks);
-    const textStyleStats = calculateAuditStats(combinedTextStyleSync);
+    const overallStats = calculateAuditStats(allChecks, config.rules);
+    const collectionStats = calculateAuditStats(collectionChecks, config.rules);
+    const textStyleStats = calculateAuditStats(combinedTextStyleSync, config.rules);
 
     // Send results to UI
     sendMessageToUI('variables-styles-audit-result', {
-      collectionStructure: collectionValidation.auditChecks,
+      collectionStructure: collectionChecks,
       textStyleSync: combinedTextStyleSync,
       scores: {
         overall: overallStats,
@@ -177,22 +287,24 @@ async function handleComponentsAudit(): Promise<void> {
     console.log('🔍 Running Components audit...');
 
     // Scan components (loads pages, yields periodically)
+    const config = await loadPluginConfig();
+    const variableData = await fetchVariableData();
     const progressCallback = (message: string) => {
       figma.ui.postMessage({ type: 'audit-progress', data: { message } });
     };
     const components = await fetchComponents(progressCallback);
 
-    const componentBindings = validateAllComponentBindings(
-      components,
-      progressCallback
+    const componentChecks = applyRuleSeverities(
+      runComponentValidators(components, variableData, config, progressCallback),
+      config.rules
     );
 
     // Calculate score using component-specific stats (pass/fail only)
-    const componentStats = calculateComponentStats(componentBindings.auditChecks);
+    const componentStats = calculateComponentStats(componentChecks, config.rules);
 
     // Send results to UI
     sendMessageToUI('components-audit-result', {
-      componentBindings: componentBindings.auditChecks,
+      componentBindings: componentChecks,
       scores: {
         component: componentStats
       }
@@ -214,15 +326,25 @@ async function handleComponentsCurrentPageAudit(): Promise<void> {
   try {
     console.log('🔍 Running Components (Current Page) audit...');
 
-    // Run component bindings validation for current page only
-    const componentBindings = await validateCurrentPageComponentBindings();
+    // Scan the current page only (no need to load all pages)
+    const config = await loadPluginConfig();
+    const variableData = await fetchVariableData();
+    const progressCallback = (message: string) => {
+      figma.ui.postMessage({ type: 'audit-progress', data: { message } });
+    };
+    const components = await fetchCurrentPageComponents(progressCallback);
+
+    const componentChecks = applyRuleSeverities(
+      runComponentValidators(components, variableData, config, progressCallback),
+      config.rules
+    );
 
     // Calculate score using component-specific stats (pass/fail only)
-    const componentStats = calculateComponentStats(componentBindings.auditChecks);
+    const componentStats = calculateComponentStats(componentChecks, config.rules);
 
     // Send results to UI (reuse same result type as full components audit)
     sendMessageToUI('components-audit-result', {
-      componentBindings: componentBindings.auditChecks,
+      componentBindings: componentChecks,
       scores: {
         component: componentStats
       }
@@ -238,33 +360,131 @@ async function handleComponentsCurrentPageAudit(): Promise<void> {
 }
 
 /**
- * Calculate audit statistics from checks (pass/fail only)
+ * Send the stored project config text to the UI
+ */
+async function handleGetConfig(): Promise<void> {
+  const text = await loadPluginConfigText();
+  sendMessageToUI('config-loaded', { text });
+}
+
+/**
+ * Validate and store project config text sent from the UI
  */
-function calculateAuditStats(checks: any[]): { score: number; passed: number; warnings: number; failed: number; total: number } {
-  if (checks.length === 0) {
+async function handleSaveConfig(data: { text?: string } | undefined): Promise<void> {
+  try {
+    const errors = await savePluginConfig(data?.text ?? '');
+    sendMessageToUI('config-saved', { success: errors.length === 0, errors });
+  } catch (error) {
+    console.error('❌ Save config error:', error);
+    sendMessageToUI('config-saved', {
+      success: false,
+      errors: [error instanceof Error ? error.message : 'Unknown error while saving config']
+    });
+  }
+}
+
+/**
+ * Plan exact-match variable bindings for components and send the preview
+ */
+async function handlePlanBindingFixes(data: { componentIds?: string[] } | undefined): Promise<void> {
+  try {
+    const componentIds = data?.componentIds ?? [];
+    console.log('🔧 Planning binding fixes for', componentIds.length, 'components');
+    const fixes = await planBindingFixes(componentIds);
+    sendMessageToUI('binding-fix-plan', { fixes, componentCount: componentIds.length });
+  } catch (error) {
+    console.error('❌ Plan binding fixes error:', error);
+    sendMessageToUI('binding-fix-plan', {
+      error: error instanceof Error ? error.message : 'Unknown error while planning fixes'
+    });
+  }
+}
+
+/**
+ * Apply a previewed binding plan as a single undo step
+ */
+async function handleApplyBindingFixes(data: { fixes?: BindingFix[] } | undefined): Promise<void> {
+  try {
+    const result = await applyBindingFixes(data?.fixes ?? []);
+    console.log('✅ Binding fixes applied:', result);
+    sendMessageToUI('binding-fixes-applied', result);
+  } catch (error) {
+    console.error('❌ Apply binding fixes error:', error);
+    sendMessageToUI('binding-fixes-applied', {
+      applied: 0,
+      failed: data?.fixes?.length ?? 0,
+      errors: [error instanceof Error ? error.message : 'Unknown error while applying fixes']
+    });
+  }
+}
+
+/**
+ * Select a node from an audit result: switch to its page, select it and
+ * bring it into view
+ */
+async function handleSelectNode(data: { nodeId?: string } | undefined): Promise<void> {
+  try {
+    const nodeId = data?.nodeId;
+    const node = nodeId ? await figma.getNodeByIdAsync(nodeId) : null;
+    if (!node || node.type === 'DOCUMENT' || node.type === 'PAGE') {
+      throw new Error(`Node ${nodeId ?? ''} not found — it may have been deleted since the audit`);
+    }
+
+    const page = getPageOf(node);
+    if (page && page !== figma.currentPage) {
+      await figma.setCurrentPageAsync(page);
+    }
+
+    const sceneNode = node as SceneNode;
+    figma.currentPage.selection = [sceneNode];
+    figma.viewport.scrollAndZoomIntoView([sceneNode]);
+
+    sendMessageToUI('node-selected', { nodeId: sceneNode.id, nodeName: sceneNode.name, pageName: page?.name });
+  } catch (error) {
+    console.error('❌ Select node error:', error);
+    sendMessageToUI('node-selected', {
+      nodeId: data?.nodeId,
+      error: error instanceof Error ? error.message : 'Unknown error while selecting node'
+    });
+  }
+}
+
+/**
+ * Calculate audit statistics from checks, respecting rule severities
+ */
+function calculateAuditStats(checks: AuditCheck[], severities: RuleSeverities = {}): { score: number; passed: number; warnings: number; failed: number; total: number } {
+  const effective = applyRuleSeverities(checks, severities);
+  if (effective.length === 0) {
     return { score: 100, passed: 0, warnings: 0, failed: 0, total: 0 };
   }
 
-  const passed = checks.filter(c => c.status === 'pass').length;
-  const failed = checks.filter(c => c.status === 'fail').length;
-  const total = checks.length;
+  const passed = effective.filter(c => c.status === 'pass').length;
+  const warnings = effective.filter(c => c.status === 'warning').length;
+  const failed = effective.filter(c => c.status === 'fail').length;
+  const total = effective.length;
   const score = Math.round((passed / total) * 100);
 
-  // Keep warnings in response for backward compatibility, but should always be 0
-  return { score, passed, warnings: 0, failed, total };
+  return { score, passed, warnings, failed, total };
 }
 
 /**
- * Calculate component audit statistics (pass/fail only, no warnings)
+ * Calculate component audit statistics (pass/fail per component, no warnings).
+ * A component may emit one check per failing rule; it fails if any fail.
  */
-function calculateComponentStats(checks: any[]): { score: number; passed: number; failed: number; total: number } {
-  if (checks.length === 0) {
+function calculateComponentStats(checks: AuditCheck[], severities: RuleSeverities = {}): { score: number; passed: number; failed: number; total: number } {
+  const effective = applyRuleSeverities(checks, severities);
+  if (effective.length === 0) {
     return { score: 100, passed: 0, failed: 0, total: 0 };
   }
 
-  const passed = checks.filter(c => c.status === 'pass').length;
-  const failed = checks.filter(c => c.status === 'fail').length;
-  const total = checks.length;
+  const failedByComponent = new Map<string, boolean>();
+  for (const check of effective) {
+    const key = check.nodeId ?? check.check;
+    failedByComponent.set(key, failedByComponent.get(key) === true || check.status === 'fail');
+  }
+  const total = failedByComponent.size;
+  const failed = Array.from(failedByComponent.values()).filter(Boolean).length;
+  const passed = total - failed;
   const score = Math.round((passed / total) * 100);
 
   return { score, passed, failed, total };
@@ -1,6 +1,7 @@
 /// <reference types="@figma/plugin-typings" />
 
 import { ValidNodeType } from '../types';
+import { contrastRatio, CONTRAST_THRESHOLDS } from '../core/contrast-validator';
 
 /**
  * Validate if an API key looks like a valid Claude API key
@@ -132,6 +133,17 @@ export async function getMainComponentAsync(node: SceneNode): Promise<ComponentN
   return null;
 }
 
+/**
+ * Find the page a node lives on by walking up its parents
+ */
+export function getPageOf(node: BaseNode): PageNode | null {
+  let current: BaseNode | null = node;
+  while (current && current.type !== 'PAGE') {
+    current = current.parent;
+  }
+  return current as PageNode | null;
+}
+
 /**
  * Traverse node tree and collect all child nodes
  */
@@ -217,16 +229,38 @@ export function renameLayer(rootNode: SceneNode, currentName: string, newName: s
 }
 
 /**
- * Check if a color meets WCAG contrast requirements
+ * Parse a `#rgb` or `#rrggbb` hex colour into 0–1 channels
+ */
+export function hexToRgb(hex: string): { r: number; g: number; b: number; a: number } | null {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const digits = match[1].length === 3
+    ? match[1].split('').map(d => d + d).join('')
+    : match[1];
+  return {
+    r: parseInt(digits.slice(0, 2), 16) / 255,
+    g: parseInt(digits.slice(2, 4), 16) / 255,
+    b: parseInt(digits.slice(4, 6), 16) / 255,
+    a: 1,
+  };
+}
+
+/**
+ * Check if a color meets WCAG contrast requirements (AA, or AA large text)
  */
-export function checkColorContrast(foreground: string, background: string): 'pass' | 'fail' | 'unknown' {
-  // Basic contrast check - could be enhanced with proper WCAG calculation
-  if (foreground === background) {
-    return 'fail';
+export function checkColorContrast(
+  foreground: string,
+  background: string,
+  largeText = false
+): 'pass' | 'fail' | 'unknown' {
+  const fg = hexToRgb(foreground);
+  const bg = hexToRgb(background);
+  if (!fg || !bg) {
+    return 'unknown';
   }
 
-  // For now, return unknown - real implementation would calculate luminance ratios
-  return 'unknown';
+  const required = largeText ? CONTRAST_THRESHOLDS.AA.large : CONTRAST_THRESHOLDS.AA.normal;
+  return contrastRatio(fg, bg) >= required ? 'pass' : 'fail';
 }
 
 /**